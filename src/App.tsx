@@ -17,6 +17,18 @@ import {
   Upload,
   X,
   Sparkles,
+  Square,
+  RefreshCw,
+  Check,
+  Rewind,
+  GitBranch,
+  UserRound,
+  Brain,
+  ScrollText,
+  Copy,
+  Archive,
+  Undo2,
+  Redo2,
 } from "lucide-react";
 
 type ThemeMode = "light" | "dark";
@@ -26,7 +38,10 @@ type CreateTab = "overview" | "personality" | "behavior" | "definition" | "syste
 type StoryTab = "scenario" | "first_message" | "system_rules" | "relationships" | "synopsis";
 type LorebookTab = "overview" | "world" | "locations" | "factions" | "rules" | "items" | "specials";
 
+type ProxyProvider = "openai" | "anthropic" | "ollama";
+
 type ProxyConfig = {
+  provider: ProxyProvider;
   chatUrl: string;
   apiKey: string;
   model: string;
@@ -35,11 +50,80 @@ type ProxyConfig = {
   contextSize: number;
   customPrompt: string;
   streamingEnabled: boolean;
+  loreTokenBudget: number;
+  loreMaxActivations: number;
+  loreRecursiveScanning: boolean;
+  // Save model thinking with chat replies; when off it is only shown while the reply streams.
+  keepChatReasoning: boolean;
+  // Requests kept in the request log; 0 turns logging off.
+  requestLogLimit: number;
+};
+
+type ProxyTask = "chat" | "lorebook" | "character" | "story";
+
+// A named set of connection settings; the active one mirrors the Proxy modal fields.
+type ConnectionProfile = {
+  id: string;
+  name: string;
+  provider: ProxyProvider;
+  chatUrl: string;
+  apiKey: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  contextSize: number;
+  streamingEnabled: boolean;
+};
+
+type ProxyChatCompletionArgs = {
+  // Picks the task's profile override, if one is set; otherwise the active profile is used.
+  task?: ProxyTask;
+  system: string;
+  user: string;
+  // Prior turns sent as real user/assistant messages before `user`; trimmed to fit the context window.
+  history?: ChatMessage[];
+  // Upper bound on the reply; the profile's max tokens still caps it.
+  maxTokens?: number;
+  temperature?: number;
+  // Stream when the profile allows it.
+  stream?: boolean;
+  lorebookIds?: string[];
+  // Name substituted for {{char}}; left as written when omitted.
+  macroChar?: string;
+  // Name substituted for {{user}}; defaults to the persona of the open story or the default persona.
+  macroUser?: string;
+  loreScanText?: string;
+  loreMessageCount?: number;
+  loreTokenBudget?: number;
+  // Receives the answer with any <think> block stripped.
+  onStreamUpdate?: (text: string) => void;
+  // Receives the model's reasoning as it accumulates; defaults to the generated field being written.
+  onReasoning?: (reasoning: string) => void;
 };
 
 type ChatMessage = {
   role: "user" | "assistant";
   content: string;
+  // Alternate assistant replies; `content` mirrors the active page.
+  swipes?: GeneratedTextState;
+  // Model thinking behind an assistant reply; mirrors the active swipe page.
+  reasoning?: string;
+  // Story group chats: the cast member who wrote this reply.
+  speakerId?: string;
+  speakerName?: string;
+};
+
+type StoryTurnMode = "turn_order" | "mention" | "manual";
+
+type Persona = {
+  id: string;
+  name: string;
+  imageDataUrl: string;
+  description: string;
+  // Added to the lorebooks of every chat that uses this persona.
+  lorebookIds: string[];
+  createdAt: string;
+  updatedAt: string;
 };
 
 type ChatSession = {
@@ -48,6 +132,17 @@ type ChatSession = {
   characterName: string;
   characterImageDataUrl: string;
   messages: ChatMessage[];
+  // Set on branches: the session they were forked from and the last copied message index.
+  parentSessionId?: string;
+  parentMessageIndex?: number;
+  // Set on story group chats; `characterName` then holds the story title.
+  storyId?: string;
+  turnMode?: StoryTurnMode;
+  // Falls back to the story's persona, then the default persona.
+  personaId?: string;
+  // Rolling memory: a model-written summary of the first `summarizedCount` messages.
+  summary?: string;
+  summarizedCount?: number;
   createdAt: string;
   updatedAt: string;
 };
@@ -56,6 +151,8 @@ type GeneratedTextPage = {
   id: string;
   text: string;
   isFinal: boolean;
+  // Model thinking captured while this page was generated; never part of `text`.
+  reasoning?: string;
 };
 
 type GeneratedTextState = {
@@ -96,6 +193,7 @@ type StoryProject = {
   relationships: StoryRelationship[];
   boardNodes: StoryBoardNode[];
   assignedLorebookIds: string[];
+  personaId?: string;
   createdAt: string;
   updatedAt: string;
 };
@@ -206,6 +304,33 @@ type CharacterCard = {
   updatedAt: string;
 };
 
+type TrashKind = "character" | "story" | "lorebook" | "chat_session" | "faction";
+
+// Where a deleted item was referenced, so restoring it can put the references back.
+type TrashRefs = {
+  cardIds: string[];
+  storyIds: string[];
+  characterIds: string[];
+  personaIds: string[];
+  boardNodes: { storyId: string; node: StoryBoardNode }[];
+  relationships: { storyId: string; relationship: StoryRelationship }[];
+};
+
+type TrashItem = {
+  // Same as the deleted record's id; a faction's is prefixed with its lorebook id.
+  id: string;
+  deletedAt: string;
+  refs: TrashRefs;
+  // Schema version of the record when it was deleted, so it is migrated on restore.
+  recordSchemaVersion: number;
+} & (
+  | { kind: "character"; record: Character }
+  | { kind: "story"; record: StoryProject }
+  | { kind: "lorebook"; record: Lorebook }
+  | { kind: "chat_session"; record: ChatSession }
+  | { kind: "faction"; record: LorebookFaction; lorebookId: string }
+);
+
 type CharacterCardJsonExport = {
   version: 1;
   exportedAt: string;
@@ -214,18 +339,43 @@ type CharacterCardJsonExport = {
   relationshipStory: StoryProject | null;
 };
 
+// Characters were mirrored here before every collection moved to IndexedDB; read once to migrate.
 const STORAGE_KEY = "mastercreator_characters_v5";
 const IDB_NAME = "mastercreator_db";
-const IDB_STORE = "characters";
+const IDB_VERSION = 4;
+
+// One object store per collection, keyed by record id.
+type IdbStoreName = "characters" | "stories" | "lorebooks" | "chat_sessions" | "character_cards" | "trash";
+
+const IDB_STORES: { name: IdbStoreName; label: string }[] = [
+  { name: "characters", label: "characters" },
+  { name: "stories", label: "stories" },
+  { name: "lorebooks", label: "lorebooks" },
+  { name: "chat_sessions", label: "chat sessions" },
+  { name: "character_cards", label: "character cards" },
+  { name: "trash", label: "trash" },
+];
+// Copies of records taken just before a schema migration rewrote them.
+const IDB_MIGRATION_BACKUP_STORE = "migration_backups";
+const MIGRATION_BACKUP_LIMIT = 10;
 const THEME_KEY = "mastercreator_theme";
 const PROXY_KEY = "mastercreator_proxy";
+const PROXY_PROFILES_KEY = "mastercreator_proxy_profiles_v1";
+// Single free-text persona from before the persona library; read once to seed it.
 const PERSONA_KEY = "mastercreator_persona";
+const PERSONAS_KEY = "mastercreator_personas_v1";
+const DEFAULT_PERSONA_KEY = "mastercreator_default_persona";
+// Collections lived whole in localStorage before IndexedDB; these keys are read once to migrate them.
 const CHAT_SESSIONS_KEY = "mastercreator_chat_sessions_v1";
 const STORIES_KEY = "mastercreator_stories_v1";
 const LOREBOOKS_KEY = "mastercreator_lorebooks_v1";
 const CHARACTER_CARDS_KEY = "mastercreator_character_cards_v1";
+const TRASH_RETENTION_KEY = "mastercreator_trash_retention_days";
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
 
 const DEFAULT_PROXY: ProxyConfig = {
+  provider: "openai",
   chatUrl: "https://llm.chutes.ai/v1/chat/completions",
   apiKey: "",
   model: "deepseek-ai/DeepSeek-R1",
@@ -234,8 +384,580 @@ const DEFAULT_PROXY: ProxyConfig = {
   contextSize: 32000,
   customPrompt: "",
   streamingEnabled: true,
+  loreTokenBudget: 2048,
+  loreMaxActivations: 100,
+  loreRecursiveScanning: true,
+  keepChatReasoning: true,
+  requestLogLimit: 50,
+};
+
+const PROXY_TASKS: { id: ProxyTask; label: string }[] = [
+  { id: "chat", label: "Chat" },
+  { id: "lorebook", label: "Lorebook writing" },
+  { id: "character", label: "Character generation" },
+  { id: "story", label: "Story writing" },
+];
+
+function normalizeConnectionProfile(raw: any, fallbackName = "Default"): ConnectionProfile | null {
+  if (!raw || typeof raw !== "object") return null;
+  const num = (v: any, fallback: number) => (Number.isFinite(Number(v)) && Number(v) > 0 ? Number(v) : fallback);
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : uid(),
+    name: collapseWhitespace(typeof raw.name === "string" ? raw.name : "") || fallbackName,
+    provider: isProxyProvider(raw.provider) ? raw.provider : DEFAULT_PROXY.provider,
+    chatUrl: typeof raw.chatUrl === "string" ? raw.chatUrl : DEFAULT_PROXY.chatUrl,
+    apiKey: typeof raw.apiKey === "string" ? raw.apiKey : DEFAULT_PROXY.apiKey,
+    model: typeof raw.model === "string" ? raw.model : DEFAULT_PROXY.model,
+    maxTokens: Math.floor(num(raw.maxTokens, DEFAULT_PROXY.maxTokens)),
+    temperature: Number.isFinite(Number(raw.temperature)) ? Number(raw.temperature) : DEFAULT_PROXY.temperature,
+    contextSize: Math.floor(num(raw.contextSize, DEFAULT_PROXY.contextSize)),
+    streamingEnabled: typeof raw.streamingEnabled === "boolean" ? raw.streamingEnabled : DEFAULT_PROXY.streamingEnabled,
+  };
+}
+
+type ProviderMessage = { role: "system" | "user" | "assistant"; content: string };
+
+type ProviderRequest = {
+  model: string;
+  // The system prompt comes first; adapters move it where their API expects it.
+  messages: ProviderMessage[];
+  temperature: number;
+  maxTokens: number;
+  contextSize: number;
+  stream: boolean;
+};
+
+// `finishReason` is normalized to "stop", "length" or the provider's own value. `reasoning` carries
+// thinking the provider returns in its own field (reasoning_content, thinking blocks).
+type ProviderChunk = { text: string; reasoning?: string; finishReason?: string };
+
+type ProviderAdapter = {
+  label: string;
+  defaultUrl: string;
+  requiresApiKey: boolean;
+  headers: (apiKey: string) => Record<string, string>;
+  body: (req: ProviderRequest) => unknown;
+  // Parses one line of a streamed body (an SSE line or an NDJSON object); null when it carries nothing.
+  parseStreamLine: (line: string) => ProviderChunk | null;
+  parseResponse: (data: any) => ProviderChunk;
+  // Model listing endpoint derived from the chat URL, used by "Test connection".
+  modelsUrl: (chatUrl: string) => string;
+  parseModels: (data: any) => string[];
+};
+
+function parseSseData(line: string) {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("data:")) return null;
+  const payload = trimmed.replace(/^data:\s*/, "");
+  return payload && payload !== "[DONE]" ? payload : null;
+}
+
+// Anthropic wants a separate system field, a leading user turn and strictly alternating roles.
+function toAnthropicMessages(messages: ProviderMessage[]) {
+  const out: { role: "user" | "assistant"; content: string }[] = [];
+  for (const m of messages) {
+    if (m.role === "system") continue;
+    const last = out[out.length - 1];
+    if (last && last.role === m.role) last.content = `${last.content}\n\n${m.content}`;
+    else out.push({ role: m.role, content: m.content });
+  }
+  if (out[0]?.role !== "user") out.unshift({ role: "user", content: "(Start)" });
+  return out;
+}
+
+const PROVIDER_ADAPTERS: Record<ProxyProvider, ProviderAdapter> = {
+  openai: {
+    label: "OpenAI-compatible",
+    defaultUrl: DEFAULT_PROXY.chatUrl,
+    requiresApiKey: true,
+    headers: (apiKey) => ({ "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` }),
+    body: (req) => ({
+      model: req.model,
+      messages: req.messages,
+      temperature: req.temperature,
+      max_tokens: req.maxTokens,
+      max_completion_tokens: req.maxTokens,
+      stream: req.stream,
+    }),
+    parseStreamLine: (line) => {
+      const payload = parseSseData(line);
+      if (!payload) return null;
+      try {
+        const part = JSON.parse(payload);
+        const choice = part?.choices?.[0];
+        return {
+          text: String(choice?.delta?.content ?? choice?.message?.content ?? choice?.text ?? ""),
+          reasoning: String(choice?.delta?.reasoning_content ?? choice?.delta?.reasoning ?? ""),
+          finishReason: choice?.finish_reason ? String(choice.finish_reason).toLowerCase() : undefined,
+        };
+      } catch {
+        return { text: payload };
+      }
+    },
+    parseResponse: (data) => ({
+      text: String(data?.choices?.[0]?.message?.content ?? data?.choices?.[0]?.text ?? ""),
+      reasoning: String(data?.choices?.[0]?.message?.reasoning_content ?? data?.choices?.[0]?.message?.reasoning ?? ""),
+      finishReason: String(data?.choices?.[0]?.finish_reason || "").toLowerCase() || undefined,
+    }),
+    modelsUrl: (chatUrl) => replaceUrlPath(chatUrl, /\/(chat\/)?completions\/?$/, "/models"),
+    parseModels: (data) => (Array.isArray(data?.data) ? data.data.map((m: any) => String(m?.id ?? "")).filter(Boolean) : []),
+  },
+  anthropic: {
+    label: "Anthropic Messages",
+    defaultUrl: "https://api.anthropic.com/v1/messages",
+    requiresApiKey: true,
+    headers: (apiKey) => ({
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": "2023-06-01",
+      "anthropic-dangerous-direct-browser-access": "true",
+    }),
+    body: (req) => ({
+      model: req.model,
+      system: req.messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n") || undefined,
+      messages: toAnthropicMessages(req.messages),
+      temperature: Math.min(1, Math.max(0, req.temperature)),
+      max_tokens: req.maxTokens,
+      stream: req.stream,
+    }),
+    parseStreamLine: (line) => {
+      const payload = parseSseData(line);
+      if (!payload) return null;
+      let event: any;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        return null;
+      }
+      if (event?.type === "error") throw new Error(String(event?.error?.message || "The provider reported an error."));
+      if (event?.type === "content_block_delta") {
+        return { text: String(event?.delta?.text ?? ""), reasoning: String(event?.delta?.thinking ?? "") };
+      }
+      if (event?.type === "message_delta" && event?.delta?.stop_reason) {
+        return { text: "", finishReason: mapAnthropicStopReason(event.delta.stop_reason) };
+      }
+      return null;
+    },
+    parseResponse: (data) => ({
+      text: Array.isArray(data?.content)
+        ? data.content.filter((b: any) => b?.type === "text").map((b: any) => String(b.text ?? "")).join("")
+        : "",
+      reasoning: Array.isArray(data?.content)
+        ? data.content.filter((b: any) => b?.type === "thinking").map((b: any) => String(b.thinking ?? "")).join("")
+        : "",
+      finishReason: data?.stop_reason ? mapAnthropicStopReason(data.stop_reason) : undefined,
+    }),
+    modelsUrl: (chatUrl) => replaceUrlPath(chatUrl, /\/messages\/?$/, "/models"),
+    parseModels: (data) => (Array.isArray(data?.data) ? data.data.map((m: any) => String(m?.id ?? "")).filter(Boolean) : []),
+  },
+  ollama: {
+    label: "Ollama",
+    defaultUrl: "http://localhost:11434/api/chat",
+    requiresApiKey: false,
+    headers: (apiKey) => ({ "Content-Type": "application/json", ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) }),
+    body: (req) => ({
+      model: req.model,
+      messages: req.messages,
+      stream: req.stream,
+      options: { temperature: req.temperature, num_predict: req.maxTokens, num_ctx: req.contextSize },
+    }),
+    parseStreamLine: (line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return null;
+      let part: any;
+      try {
+        part = JSON.parse(trimmed);
+      } catch {
+        return null;
+      }
+      if (part?.error) throw new Error(String(part.error));
+      return {
+        text: String(part?.message?.content ?? ""),
+        reasoning: String(part?.message?.thinking ?? ""),
+        finishReason: part?.done ? String(part?.done_reason || "stop") : undefined,
+      };
+    },
+    parseResponse: (data) => ({
+      text: String(data?.message?.content ?? ""),
+      reasoning: String(data?.message?.thinking ?? ""),
+      finishReason: data?.done_reason ? String(data.done_reason) : undefined,
+    }),
+    modelsUrl: (chatUrl) => replaceUrlPath(chatUrl, /\/api\/(chat|generate)\/?$/, "/api/tags"),
+    parseModels: (data) => (Array.isArray(data?.models) ? data.models.map((m: any) => String(m?.name ?? m?.model ?? "")).filter(Boolean) : []),
+  },
+};
+
+// Swaps the endpoint suffix of `url`; when it does not match, `replacement` is appended to the URL's path.
+function replaceUrlPath(url: string, suffix: RegExp, replacement: string) {
+  const [path, query = ""] = url.trim().split("?");
+  const next = suffix.test(path) ? path.replace(suffix, replacement) : `${path.replace(/\/+$/, "")}${replacement}`;
+  return query ? `${next}?${query}` : next;
+}
+
+type ProviderErrorKind = "auth" | "model" | "context" | "rate_limit" | "server" | "network" | "request";
+
+// A failed provider call with a readable message; `kind` decides whether it is worth retrying.
+class ProviderError extends Error {
+  kind: ProviderErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(kind: ProviderErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = "ProviderError";
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+const PROVIDER_RETRY_LIMIT = 3;
+const PROVIDER_RETRY_BASE_MS = 1000;
+const PROVIDER_RETRY_MAX_MS = 60000;
+
+function isRetryableProviderError(e: unknown) {
+  return e instanceof ProviderError && (e.kind === "rate_limit" || e.kind === "server" || e.kind === "network");
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function parseRetryAfter(value: string | null, now = Date.now()) {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - now;
+  return Number.isFinite(ms) ? Math.max(0, Math.min(PROVIDER_RETRY_MAX_MS, ms)) : undefined;
+}
+
+function getRetryDelay(attempt: number, retryAfterMs?: number) {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  return Math.min(PROVIDER_RETRY_MAX_MS, PROVIDER_RETRY_BASE_MS * 2 ** attempt);
+}
+
+function waitForRetry(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Aborted"));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Turns an HTTP failure into a ProviderError, reading the provider's own message out of the body.
+function classifyProviderError(status: number, body: string, context: { label: string; model?: string; retryAfterMs?: number }) {
+  let detail = body.trim();
+  const parsed = safeParseJSON(detail);
+  if (parsed && typeof parsed === "object") {
+    const err = (parsed as any).error;
+    detail = String((typeof err === "string" ? err : err?.message) ?? (parsed as any).message ?? (parsed as any).detail ?? detail);
+  }
+  detail = detail.replace(/\s+/g, " ").slice(0, 300);
+  const suffix = detail ? ` The provider said: ${detail}` : "";
+  const options = { status, retryAfterMs: context.retryAfterMs };
+  if (status === 401 || status === 403 || /invalid[^.]*api[ _-]?key|incorrect api key|unauthori[sz]ed|authentication/i.test(detail)) {
+    return new ProviderError("auth", `${context.label} rejected the API key. Check the key in Proxy.${suffix}`, options);
+  }
+  if (status === 429 || /rate.?limit|too many requests|overloaded/i.test(detail)) {
+    return new ProviderError("rate_limit", `${context.label} is rate limiting requests. Wait a moment and try again.${suffix}`, options);
+  }
+  if (/context.{0,20}(length|window|size)|maximum context|too many tokens|prompt is too long|reduce the length/i.test(detail) || status === 413) {
+    return new ProviderError(
+      "context",
+      `The prompt does not fit the model's context window. Lower the context size or lorebook budget in Proxy, or shorten the chat.${suffix}`,
+      options
+    );
+  }
+  if (status === 404 || /model[^.]{0,40}(not found|does not exist|not exist|unknown|invalid)|no such model|unknown model/i.test(detail)) {
+    const model = context.model ? `"${context.model}"` : "The model";
+    return new ProviderError("model", `${model} is not available at this endpoint. Check the model name and URL in Proxy.${suffix}`, options);
+  }
+  if (status >= 500) return new ProviderError("server", `${context.label} had a server error (${status}).${suffix}`, options);
+  return new ProviderError("request", `Request failed (${status}).${suffix}`, options);
+}
+
+// Fetches with retries on rate limits, server errors and network failures, honouring Retry-After.
+// Anything else, and aborts, is thrown straight away.
+async function fetchWithRetries(
+  url: string,
+  init: RequestInit,
+  context: { label: string; model?: string; fetchImpl?: typeof fetch; onRetry?: (error: ProviderError, delayMs: number, attempt: number) => void }
+) {
+  for (let attempt = 0; ; attempt++) {
+    let error: ProviderError;
+    try {
+      const res = await (context.fetchImpl || fetch)(url, init);
+      if (res.ok) return res;
+      const body = await res.text().catch(() => "");
+      error = classifyProviderError(res.status, body, { ...context, retryAfterMs: parseRetryAfter(res.headers.get("retry-after")) });
+    } catch (e: any) {
+      if (init.signal?.aborted || e instanceof ProviderError) throw e;
+      error = new ProviderError("network", `Could not reach ${context.label} at ${url}. Check the URL and your connection. (${e?.message || e})`);
+    }
+    if (!isRetryableProviderError(error) || attempt >= PROVIDER_RETRY_LIMIT) throw error;
+    const delay = getRetryDelay(attempt, error.retryAfterMs);
+    context.onRetry?.(error, delay, attempt + 1);
+    await waitForRetry(delay, init.signal ?? undefined);
+  }
+}
+
+// Lists the models the endpoint offers; used to test a connection profile.
+async function fetchProviderModels(provider: ProxyProvider, options: { chatUrl: string; apiKey: string; signal?: AbortSignal; fetchImpl?: typeof fetch }) {
+  const adapter = PROVIDER_ADAPTERS[provider];
+  const headers = adapter.headers(options.apiKey);
+  delete headers["Content-Type"];
+  const res = await fetchWithRetries(adapter.modelsUrl(options.chatUrl), { method: "GET", headers, signal: options.signal }, {
+    label: adapter.label,
+    fetchImpl: options.fetchImpl,
+  });
+  return adapter.parseModels(await res.json()).sort((a, b) => a.localeCompare(b));
+}
+
+function isProxyProvider(v: any): v is ProxyProvider {
+  return typeof v === "string" && Object.prototype.hasOwnProperty.call(PROVIDER_ADAPTERS, v);
+}
+
+function mapAnthropicStopReason(reason: string) {
+  if (reason === "max_tokens") return "length";
+  if (reason === "end_turn" || reason === "stop_sequence") return "stop";
+  return String(reason);
+}
+
+// Sends one completion request through the provider's adapter. Streamed text and reasoning are reported
+// through `onText` / `onReasoning` as they accumulate; `fetchImpl` lets tests point it at a mock server.
+async function requestProviderCompletion(
+  provider: ProxyProvider,
+  options: {
+    url: string;
+    apiKey: string;
+    request: ProviderRequest;
+    signal?: AbortSignal;
+    onText?: (text: string) => void;
+    onReasoning?: (reasoning: string) => void;
+    onRetry?: (error: ProviderError, delayMs: number, attempt: number) => void;
+    fetchImpl?: typeof fetch;
+  }
+): Promise<ProviderChunk> {
+  const adapter = PROVIDER_ADAPTERS[provider];
+  const res = await fetchWithRetries(
+    options.url,
+    {
+      signal: options.signal,
+      method: "POST",
+      headers: adapter.headers(options.apiKey),
+      body: JSON.stringify(adapter.body(options.request)),
+    },
+    { label: adapter.label, model: options.request.model, fetchImpl: options.fetchImpl, onRetry: options.onRetry }
+  );
+  if (!options.request.stream) return adapter.parseResponse(await res.json());
+
+  let merged = "";
+  let reasoning = "";
+  let finishReason: string | undefined;
+  const take = (line: string) => {
+    const chunk = adapter.parseStreamLine(line);
+    if (!chunk) return;
+    if (chunk.finishReason) finishReason = chunk.finishReason;
+    if (chunk.reasoning) {
+      reasoning += chunk.reasoning;
+      options.onReasoning?.(reasoning);
+    }
+    if (!chunk.text) return;
+    merged += chunk.text;
+    options.onText?.(merged);
+  };
+  const reader = res.body?.getReader();
+  if (!reader) {
+    for (const line of (await res.text()).split(/\r?\n/)) take(line);
+    return { text: merged, reasoning, finishReason };
+  }
+  options.signal?.addEventListener("abort", () => reader.cancel().catch(() => {}), { once: true });
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || "";
+    for (const line of lines) take(line);
+  }
+  if (buffer) take(buffer);
+  return { text: merged, reasoning, finishReason };
+}
+
+// Separates <think>…</think> reasoning (DeepSeek R1 and similar) from the answer. While streaming, an
+// unclosed <think> holds everything after it; a leading </think> without an opener (some hosts drop the
+// opening tag) ends a reasoning prefix.
+function splitThinking(raw: string): { text: string; reasoning: string } {
+  const parts: string[] = [];
+  let text = raw;
+  const close = text.indexOf("</think>");
+  const open = text.indexOf("<think>");
+  if (close >= 0 && (open < 0 || close < open)) {
+    parts.push(text.slice(0, close));
+    text = text.slice(close + "</think>".length);
+  }
+  text = text.replace(/<think>([\s\S]*?)<\/think>/g, (_, inner: string) => {
+    parts.push(inner);
+    return "";
+  });
+  const unclosed = text.indexOf("<think>");
+  if (unclosed >= 0) {
+    parts.push(text.slice(unclosed + "<think>".length));
+    text = text.slice(0, unclosed);
+  }
+  return {
+    text: text.replace(/^\s+/, ""),
+    reasoning: joinReasoning(...parts),
+  };
+}
+
+function joinReasoning(...parts: (string | undefined)[]) {
+  return parts.map((p) => (p || "").trim()).filter(Boolean).join("\n\n");
+}
+
+// Runs one request, strips reasoning out of the answer and keeps asking for more while the reply is cut off
+// by the token limit. A failed continuation keeps the text so far and is reported as `warning`.
+async function completeProviderRequest(
+  provider: ProxyProvider,
+  url: string,
+  apiKey: string,
+  request: ProviderRequest,
+  signal: AbortSignal,
+  args: Pick<ProxyChatCompletionArgs, "onStreamUpdate" | "onReasoning"> & {
+    onRetry?: (error: ProviderError, delayMs: number, attempt: number) => void;
+    fetchImpl?: typeof fetch;
+  }
+) {
+  const adapter = PROVIDER_ADAPTERS[provider];
+  // Reasoning arrives either in its own field or as <think> tags inside the text; both are merged.
+  let fieldReasoning = "";
+  let streamedText = "";
+  const reportStream = () => {
+    const split = splitThinking(streamedText);
+    args.onStreamUpdate?.(split.text);
+    args.onReasoning?.(joinReasoning(fieldReasoning, split.reasoning));
+  };
+  const first = await requestProviderCompletion(provider, {
+    url,
+    apiKey,
+    request,
+    signal,
+    onRetry: args.onRetry,
+    fetchImpl: args.fetchImpl,
+    onText: (text) => {
+      streamedText = text;
+      reportStream();
+    },
+    onReasoning: (reasoning) => {
+      fieldReasoning = reasoning;
+      reportStream();
+    },
+  });
+  const firstSplit = splitThinking(first.text);
+  let clean = firstSplit.text.trim();
+  let reasoning = joinReasoning(first.reasoning, firstSplit.reasoning);
+  let finishReason = first.finishReason;
+  if (reasoning) args.onReasoning?.(reasoning);
+  if (!clean) {
+    throw new Error(
+      reasoning && finishReason === "length"
+        ? `The model ran out of tokens while thinking (${adapter.label}). Raise Max Tokens and try again.`
+        : `No text returned by the model (${adapter.label}).`
+    );
+  }
+
+  let guard = 0;
+  let warning = "";
+  while (finishReason === "length" && guard < 3) {
+    guard += 1;
+    args.onStreamUpdate?.(clean);
+    const more = await requestProviderCompletion(provider, {
+      url,
+      apiKey,
+      signal,
+      onRetry: args.onRetry,
+      fetchImpl: args.fetchImpl,
+      request: {
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: "assistant", content: clean },
+          { role: "user", content: "Continue exactly where you left off. Do not repeat prior text." },
+        ],
+        stream: false,
+      },
+    }).catch((e) => {
+      if (signal.aborted) throw e;
+      warning = `The reply hit the token limit and could not be continued: ${e?.message || e}`;
+      return null;
+    });
+    const moreSplit = splitThinking(more?.text || "");
+    const moreText = moreSplit.text.trim();
+    reasoning = joinReasoning(reasoning, more?.reasoning, moreSplit.reasoning);
+    if (reasoning) args.onReasoning?.(reasoning);
+    if (!moreText) break;
+    clean = `${clean}
+${moreText}`.trim();
+    finishReason = more?.finishReason;
+  }
+
+  return { text: clean, reasoning, finishReason, continuations: guard, warning };
+}
+
+// One model call as shown in the request log. The API key is never recorded; copies use a placeholder.
+type RequestLogEntry = {
+  id: string;
+  createdAt: string;
+  task: ProxyTask | "";
+  profileName: string;
+  provider: ProxyProvider;
+  url: string;
+  model: string;
+  hasApiKey: boolean;
+  messages: ProviderMessage[];
+  params: { temperature: number; maxTokens: number; contextSize: number; stream: boolean };
+  // "Book › [Section] Entry" for every activated lorebook entry injected into the system prompt.
+  loreEntries: string[];
+  status: "pending" | "done" | "error" | "stopped";
+  response: string;
+  reasoning?: string;
+  finishReason?: string;
+  // Extra requests made because the reply hit the token limit.
+  continuations: number;
+  latencyMs: number;
+  error?: string;
 };
 
+const API_KEY_PLACEHOLDER = "YOUR_API_KEY";
+
+// Rebuilds the exact HTTP request the adapter sent for a log entry.
+function getRequestLogPayload(entry: RequestLogEntry) {
+  const adapter = PROVIDER_ADAPTERS[entry.provider];
+  return {
+    url: entry.url,
+    headers: adapter.headers(entry.hasApiKey ? API_KEY_PLACEHOLDER : ""),
+    body: adapter.body({ model: entry.model, messages: entry.messages, ...entry.params }),
+  };
+}
+
+function shellQuote(value: string) {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function formatRequestAsCurl(entry: RequestLogEntry) {
+  const { url, headers, body } = getRequestLogPayload(entry);
+  return [
+    `curl ${shellQuote(url)}`,
+    ...Object.entries(headers).map(([k, v]) => `  -H ${shellQuote(`${k}: ${v}`)}`),
+    `  --data-raw ${shellQuote(JSON.stringify(body))}`,
+  ].join(" \\\n");
+}
+
 const PERSONALITIES: string[] = [
   "Brave",
   "Cautious",
@@ -319,6 +1041,98 @@ const STORY_SYSTEM_RULE_CARDS = [
 
 const USER_NODE_ID = "{{user}}";
 
+function normalizePersona(raw: any): Persona | null {
+  if (!raw || typeof raw !== "object") return null;
+  const now = new Date().toISOString();
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : uid(),
+    name: typeof raw.name === "string" ? raw.name : "",
+    imageDataUrl: typeof raw.imageDataUrl === "string" ? raw.imageDataUrl : "",
+    description: typeof raw.description === "string" ? raw.description : "",
+    lorebookIds: normalizeStringArray(raw.lorebookIds),
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : now,
+  };
+}
+
+function getPersonaName(persona?: Persona | null) {
+  return collapseWhitespace(persona?.name ?? "") || "User";
+}
+
+function describePersona(persona?: Persona | null) {
+  if (!persona) return "User persona: (not provided)";
+  const description = collapseWhitespace(persona.description);
+  return `User persona: ${getPersonaName(persona)}${description ? ` - ${description}` : ""}`;
+}
+
+type MacroContext = {
+  char?: string;
+  user?: string;
+  now?: Date;
+  random?: () => number;
+  lorebook?: (name: string) => string | undefined;
+};
+
+const MACRO_PATTERN = /\{\{\s*([a-z_]+)\s*(?::([^{}]*))?\}\}/gi;
+const MACRO_MAX_PASSES = 4;
+
+// Deterministic generator so a message's {{random}} and {{roll}} read the same in the chat view and in the prompt.
+function createSeededRandom(seed: string) {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  return () => {
+    h = (h + 0x6d2b79f5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), 1 | h);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Accepts "d20", "2d6", "3d8+2" or a bare "20"; returns null for anything else.
+function rollDice(spec: string, random: () => number = Math.random) {
+  const m = /^\s*(\d*)\s*d\s*(\d+)\s*(?:([+-])\s*(\d+))?\s*$/i.exec(spec) || /^\s*()(\d+)\s*()()$/.exec(spec);
+  if (!m) return null;
+  const count = Math.min(100, Math.max(1, Number(m[1]) || 1));
+  const sides = Number(m[2]);
+  if (!sides) return null;
+  let total = m[4] ? Number(m[4]) * (m[3] === "-" ? -1 : 1) : 0;
+  for (let i = 0; i < count; i++) total += 1 + Math.floor(random() * sides);
+  return total;
+}
+
+// Expands {{char}}, {{user}}, {{time}}, {{date}}, {{random:a,b}}, {{roll:d20}} and {{lorebook:Name}}.
+// Inner macros resolve first, so {{random:{{char}},{{user}}}} works; unknown or unresolvable macros stay as written.
+function expandMacros(text: string, ctx: MacroContext = {}) {
+  if (!text || !text.includes("{{")) return text;
+  const random = ctx.random || Math.random;
+  const now = ctx.now || new Date();
+  let out = text;
+  for (let pass = 0; pass < MACRO_MAX_PASSES; pass++) {
+    const next = out.replace(MACRO_PATTERN, (match, rawName: string, arg: string | undefined) => {
+      const name = rawName.toLowerCase();
+      if (name === "char") return ctx.char || match;
+      if (name === "user") return ctx.user || match;
+      if (name === "time") return now.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+      if (name === "date") return now.toLocaleDateString([], { year: "numeric", month: "long", day: "numeric" });
+      if (name === "random" && arg !== undefined) {
+        const options = (arg.includes("::") ? arg.split("::") : arg.split(",")).map((o) => o.trim());
+        return options[Math.floor(random() * options.length)] ?? "";
+      }
+      if (name === "roll" && arg !== undefined) {
+        const total = rollDice(arg, random);
+        return total === null ? match : String(total);
+      }
+      if (name === "lorebook" && arg !== undefined) return ctx.lorebook?.(arg.trim()) ?? match;
+      return match;
+    });
+    if (next === out) break;
+    out = next;
+  }
+  return out;
+}
+
+const LOREBOOK_SCAN_DEPTH = 2;
+
 const RESPONSE_TO_PROBLEMS_PRESETS = ["Logical", "Empathetic", "Aggressive", "Avoidant", "Strategic", "Impulsive", "Diplomatic", "Humorous", "Self-sacrificing", "Manipulative", "Defensive", "Calm under pressure"] as const;
 
 function cn(...parts: Array<string | false | null | undefined>) {
@@ -350,6 +1164,10 @@ function normalizeStringArray(v: any): string[] {
   return [];
 }
 
+function isSameStringList(a: string[], b: string[]) {
+  return a.length === b.length && a.every((x, i) => x === b[i]);
+}
+
 function normalizeGender(v: any): Gender {
   const s = collapseWhitespace(v).toLowerCase();
   if (s === "male") return "Male";
@@ -388,146 +1206,1480 @@ function createDefaultLoreEntry(name = "", category: LorebookEntry["category"] =
     order,
     position: 0,
     activationMode: "standard",
-    activationSetting: "any_key",
+    activationSetting: category === "world" ? "always_active" : "any_key",
     keyMatchMode: "partial",
     tagsRaw: tag,
     category,
   };
 }
 
-function themeVars(mode: ThemeMode): React.CSSProperties {
-  if (mode === "light") {
-    return {
-      colorScheme: "light" as any,
-      ["--background" as any]: "40 33% 96%",
-      ["--foreground" as any]: "222 10% 14%",
-      ["--card" as any]: "40 33% 98%",
-      ["--muted" as any]: "40 18% 92%",
-      ["--muted-foreground" as any]: "222 8% 40%",
-      ["--border" as any]: "40 14% 84%",
-      ["--ring" as any]: "44 90% 52%",
-      ["--hover-accent" as any]: "44 90% 52%",
-      ["--hover-accent-foreground" as any]: "0 0% 0%",
-      ["--male" as any]: "205 95% 55%",
-      ["--female" as any]: "330 85% 70%",
-      ["--scrollbar-thumb" as any]: "222 8% 56%",
-      ["--scrollbar-thumb-hover" as any]: "222 10% 44%",
-    };
-  }
+// SillyTavern exports unset numeric fields as null, which Number() would turn into 0.
+function readImportedNumber(value: unknown, fallback: number) {
+  if (value == null || (typeof value === "string" && !value.trim())) return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function normalizeLoreEntry(raw: any, defaultName: string, category: LorebookEntry["category"], order: number): LorebookEntry {
+  const base = createDefaultLoreEntry(defaultName, category, order);
+  if (!raw || typeof raw !== "object") return base;
+  const keysRaw = typeof raw.keysRaw === "string" ? raw.keysRaw : Array.isArray(raw.key) ? raw.key.join(", ") : Array.isArray(raw.keys) ? raw.keys.join(", ") : base.keysRaw;
+  const keysecondaryRaw = typeof raw.keysecondaryRaw === "string"
+    ? raw.keysecondaryRaw
+    : Array.isArray(raw.keysecondary) ? raw.keysecondary.join(", ") : Array.isArray(raw.secondary_keys) ? raw.secondary_keys.join(", ") : base.keysecondaryRaw;
+  const enabled = raw.enabled !== false && raw.disable !== true;
+  const activationSetting: LorebookEntry["activationSetting"] =
+    raw.activationSetting === "any_key" || raw.activationSetting === "selective" || raw.activationSetting === "always_active" || raw.activationSetting === "disabled"
+      ? raw.activationSetting
+      : !enabled ? "disabled" : raw.constant ? "always_active" : raw.selective && splitCsv(keysecondaryRaw).length ? "selective" : "any_key";
   return {
-    colorScheme: "dark" as any,
-    ["--background" as any]: "220 10% 12%",
-    ["--foreground" as any]: "40 33% 96%",
-    ["--card" as any]: "220 10% 16%",
-    ["--muted" as any]: "220 8% 20%",
-    ["--muted-foreground" as any]: "220 8% 72%",
-    ["--border" as any]: "220 8% 26%",
-    ["--ring" as any]: "0 45% 48%",
-    ["--hover-accent" as any]: "0 45% 48%",
-    ["--hover-accent-foreground" as any]: "40 33% 96%",
-    ["--male" as any]: "205 95% 65%",
-    ["--female" as any]: "330 85% 78%",
-    ["--scrollbar-thumb" as any]: "220 8% 46%",
-    ["--scrollbar-thumb-hover" as any]: "220 8% 62%",
+    ...base,
+    id: typeof raw.id === "string" ? raw.id : base.id,
+    name: collapseWhitespace(raw.name || raw.comment || base.name),
+    comment: typeof raw.comment === "string" ? raw.comment : base.comment,
+    content: typeof raw.content === "string" ? raw.content : base.content,
+    keysRaw,
+    keysecondaryRaw,
+    enabled,
+    constant: !!raw.constant,
+    selective: !!raw.selective,
+    disable: !!raw.disable,
+    caseSensitive: !!raw.caseSensitive || !!raw.case_sensitive,
+    matchWholeWords: raw.matchWholeWords !== false,
+    keyMatchPriority: !!raw.keyMatchPriority,
+    priority: readImportedNumber(raw.priority, base.priority),
+    probability: raw.useProbability === false ? 100 : readImportedNumber(raw.probability, base.probability),
+    minMessages: readImportedNumber(raw.minMessages, base.minMessages),
+    groupWeight: readImportedNumber(raw.groupWeight, base.groupWeight),
+    insertionOrder: readImportedNumber(raw.insertionOrder, readImportedNumber(raw.insertion_order, base.insertionOrder)),
+    order: readImportedNumber(raw.order, base.order),
+    position: readImportedNumber(raw.position, base.position),
+    activationSetting,
+    keyMatchMode: raw.keyMatchMode === "exact" ? "exact" : "partial",
+    tagsRaw: typeof raw.tagsRaw === "string" ? raw.tagsRaw : base.tagsRaw,
+    category: ["world", "location", "faction", "rule", "item", "special", "character"].includes(raw.category) ? raw.category : category,
   };
 }
 
-function filenameSafe(name: string) {
-  return collapseWhitespace(name)
-    .split(" ")
-    .filter(Boolean)
-    .join("_")
-    .replace(/[^a-zA-Z0-9_\-]/g, "")
-    .slice(0, 80);
+type LoreScanCandidate = {
+  bookId: string;
+  bookName: string;
+  label: string;
+  entry: LorebookEntry;
+  content: string;
+};
+
+type LoreScanOptions = {
+  // Number of chat messages so far; when omitted, minMessages thresholds are not applied.
+  messageCount?: number;
+  random?: () => number;
+  recursive?: boolean;
+  // Budget and cap values of 0 or less mean unlimited.
+  tokenBudget?: number;
+  maxActivations?: number;
+};
+
+function getLorebookScanCandidates(book: Lorebook): LoreScanCandidate[] {
+  const base = { bookId: book.id, bookName: book.name };
+  const out: LoreScanCandidate[] = [];
+  if (book.worldEntry?.name || book.worldEntry?.content) {
+    out.push({ ...base, label: "World", entry: { ...book.worldEntry, name: book.worldEntry.name || "World" }, content: book.worldEntry.content || "" });
+  }
+  for (const e of book.locationEntries || []) out.push({ ...base, label: "Location", entry: e, content: e.content });
+  for (const f of book.factions || []) out.push({ ...base, label: "Faction", entry: { ...f.entry, name: f.name }, content: f.details || f.entry?.content || "" });
+  for (const e of book.rulesEntries || []) out.push({ ...base, label: "Rule", entry: e, content: e.content });
+  for (const e of book.itemEntries || []) out.push({ ...base, label: "Item", entry: e, content: e.content });
+  for (const e of book.specialsEntries || []) out.push({ ...base, label: "Special", entry: e, content: e.content });
+  return out;
 }
 
-function downloadText(filename: string, text: string) {
-  const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  a.style.display = "none";
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  setTimeout(() => URL.revokeObjectURL(url), 50);
+function isLoreEntryDisabled(entry: LorebookEntry) {
+  return entry.activationSetting === "disabled" || entry.disable || !entry.enabled;
 }
 
-function downloadJSON(filename: string, data: unknown) {
-  const blob = new Blob([JSON.stringify(data, null, 2)], {
-    type: "application/json;charset=utf-8",
-  });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  a.style.display = "none";
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  setTimeout(() => URL.revokeObjectURL(url), 50);
+function isLoreEntryConstant(entry: LorebookEntry) {
+  return entry.activationSetting === "always_active" || entry.constant;
 }
 
-function openIdb(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    if (typeof indexedDB === "undefined") {
-      reject(new Error("IndexedDB is not available in this browser."));
-      return;
-    }
-    const req = indexedDB.open(IDB_NAME, 1);
-    req.onupgradeneeded = () => {
-      const db = req.result;
-      if (!db.objectStoreNames.contains(IDB_STORE)) {
-        db.createObjectStore(IDB_STORE, { keyPath: "id" });
-      }
+function escapeRegExp(input: string) {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "exact" key matching always requires word boundaries; "partial" only does when matchWholeWords is set.
+function loreKeyMatches(text: string, key: string, entry: LorebookEntry) {
+  const needle = collapseWhitespace(key);
+  if (!needle || !text) return false;
+  if (!entry.matchWholeWords && entry.keyMatchMode !== "exact") {
+    return entry.caseSensitive ? text.includes(needle) : text.toLowerCase().includes(needle.toLowerCase());
+  }
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(needle)}(?=$|[^\\p{L}\\p{N}_])`, entry.caseSensitive ? "u" : "iu");
+  return pattern.test(text);
+}
+
+function matchesLoreEntryKeys(entry: LorebookEntry, text: string, options: LoreScanOptions = {}) {
+  if (isLoreEntryDisabled(entry)) return false;
+  if (isLoreEntryConstant(entry)) return true;
+  if (options.messageCount !== undefined && options.messageCount < (Number(entry.minMessages) || 0)) return false;
+
+  const primary = splitCsv(entry.keysRaw);
+  const keys = primary.length ? primary : [entry.name];
+  if (!keys.some((k) => loreKeyMatches(text, k, entry))) return false;
+
+  const secondary = splitCsv(entry.keysecondaryRaw);
+  const selective = entry.selective || entry.activationSetting === "selective";
+  if (selective && secondary.length && !secondary.some((k) => loreKeyMatches(text, k, entry))) return false;
+  return true;
+}
+
+function rollLoreEntryProbability(entry: LorebookEntry, options: LoreScanOptions = {}) {
+  if (isLoreEntryConstant(entry)) return true;
+  const probability = Number.isFinite(Number(entry.probability)) ? Math.max(0, Math.min(100, Number(entry.probability))) : 100;
+  return probability >= 100 || (options.random ?? Math.random)() * 100 < probability;
+}
+
+function isLoreEntryTriggered(entry: LorebookEntry, text: string, options: LoreScanOptions = {}) {
+  return matchesLoreEntryKeys(entry, text, options) && rollLoreEntryProbability(entry, options);
+}
+
+// Pre-splits text the way GPT-style BPE tokenizers do: contractions, letter runs with their leading space,
+// up to three digits, punctuation runs and whitespace. Built at runtime so engines without Unicode property
+// escapes get null and fall back to the 4-characters-per-token heuristic.
+const TOKEN_PIECE_PATTERN = (() => {
+  try {
+    return new RegExp("'(?:[sdmt]|ll|ve|re)| ?\\p{L}+| ?\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+|\\s+", "giu");
+  } catch {
+    return null;
+  }
+})();
+
+const TOKEN_COUNT_CACHE_LIMIT = 500;
+const tokenCountCache = new Map<string, number>();
+
+// What BPE merges typically leave of one pre-split piece: common English words merge into a single token,
+// CJK costs about one token per character and other scripts and punctuation merge less.
+function estimatePieceTokens(piece: string) {
+  const word = piece.trimStart();
+  if (!word) return Math.ceil(piece.length / 8);
+  if (/^[A-Za-z]+$/.test(word)) return word.length <= 8 ? 1 : 1 + Math.ceil((word.length - 8) / 5);
+  if (/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/.test(word)) return word.length;
+  if (word.toLowerCase() !== word.toUpperCase()) return Math.ceil(word.length / 3);
+  if (/^\d+$/.test(word)) return 1;
+  return Math.ceil(word.length / 2);
+}
+
+function estimateTokensByPieces(raw: string) {
+  if (!TOKEN_PIECE_PATTERN) return Math.ceil(raw.length / 4);
+  let count = 0;
+  for (const m of raw.matchAll(TOKEN_PIECE_PATTERN)) count += estimatePieceTokens(m[0]);
+  return count;
+}
+
+// The cl100k_base vocabulary is about 1 MB, so it loads in the background. Until it is there, or when it
+// fails to load, counts come from the piece heuristic above.
+let bpeCountTokens: ((text: string) => number) | null = null;
+let bpeTokenizerLoad: Promise<boolean> | null = null;
+
+function loadBpeTokenizer() {
+  bpeTokenizerLoad ??= import("gpt-tokenizer/encoding/cl100k_base").then(
+    (m) => {
+      // Text that looks like a special token is counted as plain text instead of throwing.
+      bpeCountTokens = (text) => m.countTokens(text, { disallowedSpecial: new Set() });
+      tokenCountCache.clear();
+      return true;
+    },
+    () => false
+  );
+  return bpeTokenizerLoad;
+}
+
+function estimateTokens(text: string) {
+  const raw = String(text || "");
+  if (!raw) return 0;
+  const cached = tokenCountCache.get(raw);
+  if (cached !== undefined) return cached;
+  let count: number | null = null;
+  if (bpeCountTokens) {
+    try {
+      count = bpeCountTokens(raw);
+    } catch {
+      count = null;
+    }
+  }
+  count ??= estimateTokensByPieces(raw);
+  if (raw.length <= 20000) {
+    if (tokenCountCache.size >= TOKEN_COUNT_CACHE_LIMIT) tokenCountCache.clear();
+    tokenCountCache.set(raw, count);
+  }
+  return count;
+}
+
+function formatTokenCount(tokens: number) {
+  return `${tokens.toLocaleString()} ${tokens === 1 ? "token" : "tokens"}`;
+}
+
+const CHAT_MESSAGE_TOKEN_OVERHEAD = 4;
+
+function getChatMessageSwipes(m?: ChatMessage): GeneratedTextState {
+  if (!m) return { pages: [], activeIndex: 0 };
+  const pages = m.swipes?.pages?.length ? m.swipes.pages : [{ id: uid(), text: m.content, isFinal: true }];
+  return { pages, activeIndex: clampIndex(m.swipes?.activeIndex ?? pages.length - 1, pages.length) };
+}
+
+function getChatBranchRoot(sessions: ChatSession[], sessionId: string) {
+  let current = sessions.find((s) => s.id === sessionId) || null;
+  const seen = new Set<string>();
+  while (current?.parentSessionId && !seen.has(current.id)) {
+    seen.add(current.id);
+    const parent = sessions.find((s) => s.id === current!.parentSessionId);
+    if (!parent) break;
+    current = parent;
+  }
+  return current;
+}
+
+function getChatBranchChildren(sessions: ChatSession[], parentId: string) {
+  return sessions
+    .filter((s) => s.parentSessionId === parentId && s.id !== parentId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+const STORY_TURN_MODES: { id: StoryTurnMode; label: string }[] = [
+  { id: "turn_order", label: "Turn order" },
+  { id: "mention", label: "Name mention" },
+  { id: "manual", label: "My choice" },
+];
+
+function storyCastNameMentionIndex(text: string, name: string) {
+  const names = Array.from(new Set([collapseWhitespace(name), collapseWhitespace(name).split(" ")[0]])).filter((n) => n.length > 1);
+  let best = -1;
+  for (const n of names) {
+    const match = new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(n)}(?=$|[^\\p{L}\\p{N}_])`, "iu").exec(text);
+    if (match && (best < 0 || match.index < best)) best = match.index;
+  }
+  return best;
+}
+
+// Picks who speaks next in a story group chat. "mention" takes the cast member named earliest in the
+// latest message (never the one who wrote it) and falls back to turn order, as does "manual" without a choice.
+function pickNextStorySpeaker(cast: { id: string; name: string }[], messages: ChatMessage[], mode: StoryTurnMode, chosenId = "") {
+  if (!cast.length) return "";
+  if (mode === "manual" && cast.some((c) => c.id === chosenId)) return chosenId;
+  const lastSpeakerIndex = (() => {
+    for (let i = messages.length - 1; i >= 0; i -= 1) {
+      const idx = cast.findIndex((c) => c.id === messages[i].speakerId);
+      if (idx >= 0) return idx;
+    }
+    return -1;
+  })();
+  if (mode === "mention") {
+    const latest = messages[messages.length - 1];
+    let picked = "";
+    let pickedAt = -1;
+    for (const c of cast) {
+      if (!latest || c.id === latest.speakerId) continue;
+      const at = storyCastNameMentionIndex(latest.content, c.name);
+      if (at >= 0 && (pickedAt < 0 || at < pickedAt)) {
+        picked = c.id;
+        pickedAt = at;
+      }
+    }
+    if (picked) return picked;
+  }
+  return cast[(lastSpeakerIndex + 1) % cast.length].id;
+}
+
+// Group chats send every cast reply as an assistant turn, so the speaker name is written into the text.
+function formatStoryChatHistory(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((m) =>
+    m.role === "assistant" && m.speakerName ? { role: m.role, content: `${m.speakerName}: ${m.content}` } : { role: m.role, content: m.content }
+  );
+}
+
+function stripStorySpeakerPrefix(text: string, name: string) {
+  const prefix = new RegExp(`^\\s*\\**${escapeRegExp(collapseWhitespace(name))}\\**\\s*:\\s*`, "iu");
+  return text.replace(prefix, "");
+}
+
+// Keeps the newest messages that fit in the token budget, oldest dropped first.
+function trimChatHistoryToBudget(messages: ChatMessage[], budgetTokens: number) {
+  const kept: ChatMessage[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(messages[i].content) + CHAT_MESSAGE_TOKEN_OVERHEAD;
+    if (used + cost > budgetTokens) break;
+    used += cost;
+    kept.unshift(messages[i]);
+  }
+  return kept;
+}
+
+const CHAT_SUMMARY_RECENT_MESSAGES = 6;
+
+// Once the unsummarized messages overflow the budget, returns how many leading messages the summary should
+// cover: enough that the rest fits in half the budget, so the summary is not rebuilt on every turn.
+function getChatSummaryCutoff(messages: ChatMessage[], summarizedCount: number, budgetTokens: number) {
+  const start = Math.max(0, Math.min(messages.length, summarizedCount));
+  const tail = messages.slice(start);
+  if (trimChatHistoryToBudget(tail, budgetTokens).length === tail.length) return start;
+  return messages.length - trimChatHistoryToBudget(tail, Math.floor(budgetTokens / 2)).length;
+}
+
+function formatChatTranscript(messages: ChatMessage[], assistantName: string) {
+  return messages.map((m) => `${m.role === "user" ? "User" : m.speakerName || assistantName}: ${m.content}`).join("\n");
+}
+
+function withChatSummary(system: string, summary = "") {
+  const text = collapseWhitespace(summary);
+  return text ? `${system}\n\nSummary of earlier events:\n${text}` : system;
+}
+
+// Constant entries win first, then higher priority, then higher order.
+function compareLoreCandidates(a: LoreScanCandidate, b: LoreScanCandidate) {
+  const constantDiff = Number(isLoreEntryConstant(b.entry)) - Number(isLoreEntryConstant(a.entry));
+  if (constantDiff) return constantDiff;
+  const priorityDiff = (Number(b.entry.priority) || 0) - (Number(a.entry.priority) || 0);
+  if (priorityDiff) return priorityDiff;
+  return (Number(b.entry.order) || 0) - (Number(a.entry.order) || 0);
+}
+
+function scanLorebooks(books: Lorebook[], scanText: string, options: LoreScanOptions = {}) {
+  const candidates = books.flatMap(getLorebookScanCandidates).filter((c) => collapseWhitespace(c.content));
+  const budget = Number(options.tokenBudget) > 0 ? Number(options.tokenBudget) : Infinity;
+  const cap = Number(options.maxActivations) > 0 ? Number(options.maxActivations) : Infinity;
+  const activated = new Set<LoreScanCandidate>();
+  const settled = new Set<LoreScanCandidate>();
+  let usedTokens = 0;
+  let passText = collapseWhitespace(scanText);
+  let full = false;
+
+  while (!full) {
+    const matched = candidates
+      .filter((c) => !settled.has(c) && matchesLoreEntryKeys(c.entry, passText, options))
+      .sort(compareLoreCandidates);
+    if (!matched.length) break;
+
+    const added: LoreScanCandidate[] = [];
+    for (const c of matched) {
+      settled.add(c);
+      if (!rollLoreEntryProbability(c.entry, options)) continue;
+      const cost = estimateTokens(`${c.entry.name}: ${c.content}`);
+      if (activated.size >= cap || usedTokens + cost > budget) {
+        full = true;
+        break;
+      }
+      usedTokens += cost;
+      activated.add(c);
+      added.push(c);
+    }
+
+    if (!options.recursive || !added.length) break;
+    passText = collapseWhitespace(added.map((c) => c.content).join("\n"));
+  }
+
+  return candidates.filter((c) => activated.has(c));
+}
+
+function lorebookToWorldInfo(book: Lorebook, options: LoreScanOptions = {}) {
+  const allEntries: Array<{ entry: LorebookEntry; contentOverride?: string; faction?: LorebookFaction }> = [
+    { entry: { ...book.worldEntry, category: "world" as const, tagsRaw: "world" } },
+    ...book.locationEntries.map((entry) => ({ entry: { ...entry, category: "location" as const, tagsRaw: "important" } })),
+    ...book.factions.map((f) => ({ entry: { ...f.entry, category: "faction" as const, tagsRaw: "faction", name: f.name }, contentOverride: f.details || f.entry.content, faction: f })),
+    ...book.rulesEntries.map((entry) => ({ entry: { ...entry, category: "rule" as const, tagsRaw: "important" } })),
+    ...book.itemEntries.map((entry) => ({ entry: { ...entry, category: "item" as const, tagsRaw: "important" } })),
+    ...book.specialsEntries.map((entry) => ({ entry: { ...entry, category: "special" as const, tagsRaw: "important" } })),
+  ];
+
+  const entries: Record<string, any> = {};
+  allEntries.forEach((item, index) => {
+    const entry = item.entry;
+    const key = String(index + 1);
+    entries[key] = {
+      uid: index + 1,
+      name: entry.name,
+      key: splitCsv(entry.keysRaw).length ? splitCsv(entry.keysRaw) : [entry.name],
+      keysecondary: splitCsv(entry.keysecondaryRaw),
+      comment: entry.comment,
+      content: item.contentOverride ?? entry.content,
+      constant: entry.activationSetting === "always_active" ? true : entry.constant,
+      selective: entry.activationSetting === "selective" ? true : entry.selective,
+      disable: entry.activationSetting === "disabled" ? true : entry.disable || !entry.enabled,
+      order: entry.order,
+      position: entry.position,
+      probability: entry.probability,
+      useProbability: entry.probability < 100,
+      caseSensitive: entry.caseSensitive,
+      matchWholeWords: entry.matchWholeWords,
+      groupWeight: entry.groupWeight,
+      category: entry.category,
+      keyMatchMode: entry.keyMatchMode,
+      keyMatchPriority: entry.keyMatchPriority,
+      activationSetting: entry.activationSetting,
+      priority: entry.priority,
+      insertionOrder: entry.insertionOrder,
+      minMessages: entry.minMessages,
+      ...(item.faction ? { factionType: item.faction.factionType, factionSize: item.faction.factionSize } : {}),
     };
-    req.onsuccess = () => resolve(req.result);
-    req.onerror = () => reject(req.error || new Error("Failed to open database."));
   });
+
+  const out = {
+    name: book.name,
+    description: book.description || "",
+    entries,
+    extensions: {
+      world_info_depth: LOREBOOK_SCAN_DEPTH,
+      world_info_budget: options.tokenBudget ?? DEFAULT_PROXY.loreTokenBudget,
+      world_info_min_activations: 0,
+      world_info_max_activations: options.maxActivations ?? DEFAULT_PROXY.loreMaxActivations,
+      world_info_recursive_scanning: options.recursive ?? DEFAULT_PROXY.loreRecursiveScanning,
+      world_info_overflow_alert: true,
+      world_info_case_sensitive: false,
+      world_info_match_whole_words: false,
+    },
+    meta: {
+      title: book.name,
+      author: book.author || "",
+      description: book.description || "",
+      category: "original",
+      tags: splitCsv(book.metaTagsRaw),
+      entryCount: allEntries.length,
+      totalTokens: Object.values(entries).reduce((sum, e) => sum + estimateTokens(`${e.name}: ${e.content}`), 0),
+      featured: false,
+      lastChanges: {
+        descriptionChanged: false,
+        entriesChanged: [],
+        entriesAdded: [],
+        entriesDeleted: [],
+        metaChanged: [],
+      },
+      changelog: [],
+      source: "LoreBary",
+      version: "1.0",
+    },
+  };
+  return out;
+}
+
+function lorebookFromWorldInfo(data: any, fallbackName = "Imported lorebook"): Lorebook | null {
+  if (!data || typeof data !== "object") return null;
+  const rawEntries: any[] | null = Array.isArray(data.entries)
+    ? data.entries
+    : data.entries && typeof data.entries === "object" ? Object.values(data.entries) : null;
+  if (!rawEntries) return null;
+
+  const now = new Date().toISOString();
+  const book: Lorebook = {
+    id: uid(),
+    name: collapseWhitespace(data.name || data.meta?.title || fallbackName) || fallbackName,
+    description: typeof data.description === "string" ? data.description : typeof data.meta?.description === "string" ? data.meta.description : "",
+    author: typeof data.meta?.author === "string" ? data.meta.author : "",
+    metaTagsRaw: Array.isArray(data.meta?.tags) ? data.meta.tags.join(", ") : "",
+    coverImageDataUrl: "",
+    worldEntry: createDefaultLoreEntry("World Overview", "world", 100),
+    locationEntries: [],
+    rulesEntries: [],
+    itemEntries: [],
+    specialsEntries: [],
+    factions: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  let hasWorld = false;
+  rawEntries.forEach((raw, idx) => {
+    if (!raw || typeof raw !== "object") return;
+    const entry = normalizeLoreEntry(raw, `Entry ${idx + 1}`, "rule", (idx + 1) * 100);
+    if (entry.category === "world" && !hasWorld) {
+      hasWorld = true;
+      book.worldEntry = entry;
+    } else if (entry.category === "location") {
+      book.locationEntries.push(entry);
+    } else if (entry.category === "faction") {
+      book.factions.push({
+        id: uid(),
+        name: entry.name,
+        imageDataUrl: "",
+        factionType: raw.factionType === "hostile" ? "hostile" : "passive",
+        factionSize: ["micro", "small", "medium", "large", "massive", "colossal", "mega-faction"].includes(raw.factionSize) ? raw.factionSize : "small",
+        details: entry.content,
+        entry,
+        createdAt: now,
+      });
+    } else if (entry.category === "rule") {
+      book.rulesEntries.push(entry);
+    } else if (entry.category === "item") {
+      book.itemEntries.push(entry);
+    } else {
+      book.specialsEntries.push(entry);
+    }
+  });
+  return book;
 }
 
-async function idbGetAllCharacters(): Promise<Character[]> {
-  const db = await openIdb();
-   return new Promise<Character[]>((resolve, reject) => {
-    const tx = db.transaction(IDB_STORE, "readonly");
-    const store = tx.objectStore(IDB_STORE);
-    const req = store.getAll();
+function serializeLoreScanResults(activated: LoreScanCandidate[]) {
+  const byBook = new Map<string, { name: string; lines: string[] }>();
+  for (const c of activated) {
+    const group = byBook.get(c.bookId) || { name: c.bookName, lines: [] };
+    group.lines.push(`[${c.label}] ${c.entry.name}: ${c.content}`);
+    byBook.set(c.bookId, group);
+  }
+  return Array.from(byBook.values())
+    .map((g) => `# Lorebook: ${g.name}\n${g.lines.join("\n")}`)
+    .join("\n\n");
+}
+
+function themeVars(mode: ThemeMode): React.CSSProperties {
+  if (mode === "light") {
+    return {
+      colorScheme: "light" as any,
+      ["--background" as any]: "40 33% 96%",
+      ["--foreground" as any]: "222 10% 14%",
+      ["--card" as any]: "40 33% 98%",
+      ["--muted" as any]: "40 18% 92%",
+      ["--muted-foreground" as any]: "222 8% 40%",
+      ["--border" as any]: "40 14% 84%",
+      ["--ring" as any]: "44 90% 52%",
+      ["--hover-accent" as any]: "44 90% 52%",
+      ["--hover-accent-foreground" as any]: "0 0% 0%",
+      ["--male" as any]: "205 95% 55%",
+      ["--female" as any]: "330 85% 70%",
+      ["--scrollbar-thumb" as any]: "222 8% 56%",
+      ["--scrollbar-thumb-hover" as any]: "222 10% 44%",
+    };
+  }
+  return {
+    colorScheme: "dark" as any,
+    ["--background" as any]: "220 10% 12%",
+    ["--foreground" as any]: "40 33% 96%",
+    ["--card" as any]: "220 10% 16%",
+    ["--muted" as any]: "220 8% 20%",
+    ["--muted-foreground" as any]: "220 8% 72%",
+    ["--border" as any]: "220 8% 26%",
+    ["--ring" as any]: "0 45% 48%",
+    ["--hover-accent" as any]: "0 45% 48%",
+    ["--hover-accent-foreground" as any]: "40 33% 96%",
+    ["--male" as any]: "205 95% 65%",
+    ["--female" as any]: "330 85% 78%",
+    ["--scrollbar-thumb" as any]: "220 8% 46%",
+    ["--scrollbar-thumb-hover" as any]: "220 8% 62%",
+  };
+}
+
+function filenameSafe(name: string) {
+  return collapseWhitespace(name)
+    .split(" ")
+    .filter(Boolean)
+    .join("_")
+    .replace(/[^a-zA-Z0-9_\-]/g, "")
+    .slice(0, 80);
+}
+
+function downloadText(filename: string, text: string) {
+  const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.style.display = "none";
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 50);
+}
+
+function downloadJSON(filename: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: "application/json;charset=utf-8",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.style.display = "none";
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 50);
+}
+
+function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.style.display = "none";
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 50);
+}
+
+function bytesToBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+let crc32Table: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array) {
+  if (!crc32Table) {
+    crc32Table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crc32Table[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crc32Table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+type PngChunk = { type: string; data: Uint8Array };
+
+function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (bytes.length < 8 || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) throw new Error("Not a PNG file.");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    chunks.push({ type, data });
+    offset += 12 + length;
+    if (type === "IEND") break;
+  }
+  return chunks;
+}
+
+function writePngChunks(chunks: PngChunk[]) {
+  const total = 8 + chunks.reduce((sum, c) => sum + 12 + c.data.length, 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  out.set(PNG_SIGNATURE, 0);
+  let offset = 8;
+  for (const chunk of chunks) {
+    const typeAndData = new Uint8Array(4 + chunk.data.length);
+    for (let i = 0; i < 4; i++) typeAndData[i] = chunk.type.charCodeAt(i);
+    typeAndData.set(chunk.data, 4);
+    view.setUint32(offset, chunk.data.length);
+    out.set(typeAndData, offset + 4);
+    view.setUint32(offset + 8 + chunk.data.length, crc32(typeAndData));
+    offset += 12 + chunk.data.length;
+  }
+  return out;
+}
+
+function createPngTextChunk(keyword: string, text: string): PngChunk {
+  const data = new Uint8Array(keyword.length + 1 + text.length);
+  for (let i = 0; i < keyword.length; i++) data[i] = keyword.charCodeAt(i) & 0xff;
+  for (let i = 0; i < text.length; i++) data[keyword.length + 1 + i] = text.charCodeAt(i) & 0xff;
+  return { type: "tEXt", data };
+}
+
+// Writes card JSON as base64 tEXt chunks ("chara" for V2, "ccv3" for V3), replacing any existing ones.
+function embedCharacterCardInPng(png: Uint8Array, cards: { chara: unknown; ccv3?: unknown }) {
+  const isCardChunk = (c: PngChunk) => {
+    if (c.type !== "tEXt") return false;
+    const keyword = String.fromCharCode(...c.data.subarray(0, Math.max(0, c.data.indexOf(0))));
+    return keyword === "chara" || keyword === "ccv3";
+  };
+  const chunks = readPngChunks(png).filter((c) => !isCardChunk(c));
+  const textChunks = [createPngTextChunk("chara", bytesToBase64(new TextEncoder().encode(JSON.stringify(cards.chara))))];
+  if (cards.ccv3) textChunks.push(createPngTextChunk("ccv3", bytesToBase64(new TextEncoder().encode(JSON.stringify(cards.ccv3)))));
+  const iendIndex = chunks.findIndex((c) => c.type === "IEND");
+  chunks.splice(iendIndex < 0 ? chunks.length : iendIndex, 0, ...textChunks);
+  return writePngChunks(chunks);
+}
+
+async function imageDataUrlToPngBytes(dataUrl: string): Promise<Uint8Array> {
+  if (/^data:image\/png;base64,/i.test(dataUrl)) return base64ToBytes(dataUrl.slice(dataUrl.indexOf(",") + 1));
+
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+  if (dataUrl) {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const el = new Image();
+      el.onload = () => resolve(el);
+      el.onerror = () => reject(new Error("Failed to load character image."));
+      el.src = dataUrl;
+    });
+    canvas.width = img.naturalWidth || 512;
+    canvas.height = img.naturalHeight || 768;
+    ctx.drawImage(img, 0, 0);
+  } else {
+    canvas.width = 512;
+    canvas.height = 768;
+    ctx.fillStyle = "#d9d4ca";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Failed to encode PNG.");
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+type ZipEntry = { name: string; data: Uint8Array };
+
+function getDosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+// Writes a plain zip with every entry stored uncompressed; images are already compressed and the JSON stays
+// small next to them.
+function createZipArchive(entries: ZipEntry[], date = new Date()) {
+  const encoder = new TextEncoder();
+  const { time, day } = getDosDateTime(date);
+  const files = entries.map((entry) => ({ name: encoder.encode(entry.name), data: entry.data, crc: crc32(entry.data) }));
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  const writeHeader = (offset: number, signature: number, f: (typeof files)[number]) => {
+    const central = signature === 0x02014b50;
+    view.setUint32(offset, signature, true);
+    let at = offset + 4;
+    if (central) {
+      view.setUint16(at, 20, true);
+      at += 2;
+    }
+    view.setUint16(at, 20, true);
+    view.setUint16(at + 2, 0x0800, true);
+    view.setUint16(at + 4, 0, true);
+    view.setUint16(at + 6, time, true);
+    view.setUint16(at + 8, day, true);
+    view.setUint32(at + 10, f.crc, true);
+    view.setUint32(at + 14, f.data.length, true);
+    view.setUint32(at + 18, f.data.length, true);
+    view.setUint16(at + 22, f.name.length, true);
+    return at + 24;
+  };
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+  for (const f of files) {
+    localOffsets.push(offset);
+    const at = writeHeader(offset, 0x04034b50, f);
+    out.set(f.name, at + 2);
+    out.set(f.data, at + 2 + f.name.length);
+    offset = at + 2 + f.name.length + f.data.length;
+  }
+  files.forEach((f, i) => {
+    const at = writeHeader(offset, 0x02014b50, f);
+    view.setUint32(at + 12, localOffsets[i], true);
+    out.set(f.name, at + 16);
+    offset = at + 16 + f.name.length;
+  });
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, localSize, true);
+  return out;
+}
+
+async function inflateRaw(data: Uint8Array) {
+  if (typeof DecompressionStream === "undefined") throw new Error("This browser cannot read compressed zip entries.");
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Reads entries through the central directory. Stored and deflated entries are supported, so an archive that
+// was unpacked and zipped again by another tool still restores.
+async function readZipArchive(bytes: Uint8Array): Promise<ZipEntry[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a zip archive.");
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== 0x02014b50) throw new Error("The zip directory is damaged.");
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method !== 0 && method !== 8) throw new Error(`${name} uses an unsupported compression method.`);
+    const data = method === 8 ? await inflateRaw(raw) : raw;
+    if (crc32(data) !== crc) throw new Error(`${name} is damaged.`);
+    entries.push({ name, data });
+  }
+  return entries;
+}
+
+const WORKSPACE_ARCHIVE_FORMAT = "mastercreator-workspace";
+const WORKSPACE_MANIFEST_FILE = "workspace.json";
+// Image data URLs are moved out of the manifest into files and referenced with this prefix.
+const ARCHIVE_IMAGE_REF_PREFIX = "archive-image:";
+
+const ARCHIVE_IMAGE_TYPES: { mime: string; ext: string }[] = [
+  { mime: "image/png", ext: "png" },
+  { mime: "image/jpeg", ext: "jpg" },
+  { mime: "image/gif", ext: "gif" },
+  { mime: "image/webp", ext: "webp" },
+  { mime: "image/svg+xml", ext: "svg" },
+  { mime: "image/avif", ext: "avif" },
+];
+
+type WorkspaceArchive = {
+  format: typeof WORKSPACE_ARCHIVE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  includesApiKeys: boolean;
+  // Schema version of each collection at export time, so older archives are migrated on restore.
+  schemaVersions: Record<IdbStoreName, number>;
+  characters: Character[];
+  characterCards: CharacterCard[];
+  stories: StoryProject[];
+  lorebooks: Lorebook[];
+  chatSessions: ChatSession[];
+  personas: Persona[];
+  defaultPersonaId: string;
+  proxy: ProxyConfig;
+  connectionProfiles: ConnectionProfile[];
+  activeProfileId: string;
+  taskProfileIds: Partial<Record<ProxyTask, string>>;
+};
+
+type WorkspaceCollectionKey = "characters" | "characterCards" | "stories" | "lorebooks" | "chatSessions";
+
+const WORKSPACE_COLLECTIONS: { key: WorkspaceCollectionKey; store: IdbStoreName; normalize: (raw: any) => { id: string; updatedAt: string } | null }[] = [
+  { key: "characters", store: "characters", normalize: normalizeCharacter },
+  { key: "characterCards", store: "character_cards", normalize: normalizeCharacterCard },
+  { key: "stories", store: "stories", normalize: normalizeStory },
+  { key: "lorebooks", store: "lorebooks", normalize: normalizeLorebook },
+  { key: "chatSessions", store: "chat_sessions", normalize: normalizeChatSession },
+];
+
+// Replaces every base64 image data URL in the value with a reference to a file; identical images share a file.
+function extractArchiveImages(value: unknown, files: Map<string, string>): unknown {
+  if (typeof value === "string") {
+    const match = /^data:(image\/[a-z0-9.+-]+);base64,/i.exec(value);
+    if (!match) return value;
+    let path = files.get(value);
+    if (!path) {
+      const ext = ARCHIVE_IMAGE_TYPES.find((t) => t.mime === match[1].toLowerCase())?.ext || "bin";
+      path = `images/${String(files.size + 1).padStart(4, "0")}.${ext}`;
+      files.set(value, path);
+    }
+    return `${ARCHIVE_IMAGE_REF_PREFIX}${path}`;
+  }
+  if (Array.isArray(value)) return value.map((v) => extractArchiveImages(v, files));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, extractArchiveImages(v, files)]));
+  }
+  return value;
+}
+
+function restoreArchiveImages(value: unknown, images: Map<string, string>): unknown {
+  if (typeof value === "string") {
+    return value.startsWith(ARCHIVE_IMAGE_REF_PREFIX) ? images.get(value.slice(ARCHIVE_IMAGE_REF_PREFIX.length)) || "" : value;
+  }
+  if (Array.isArray(value)) return value.map((v) => restoreArchiveImages(v, images));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreArchiveImages(v, images)]));
+  }
+  return value;
+}
+
+function buildWorkspaceArchive(workspace: WorkspaceArchive) {
+  const files = new Map<string, string>();
+  const manifest = extractArchiveImages(workspace, files);
+  const entries: ZipEntry[] = [{ name: WORKSPACE_MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) }];
+  for (const [dataUrl, path] of files) entries.push({ name: path, data: base64ToBytes(dataUrl.slice(dataUrl.indexOf(",") + 1)) });
+  return createZipArchive(entries);
+}
+
+// Unpacks an archive into normalized records at the current schema; throws with a readable message.
+async function parseWorkspaceArchive(bytes: Uint8Array): Promise<WorkspaceArchive> {
+  const entries = await readZipArchive(bytes);
+  const manifestEntry = entries.find((e) => e.name === WORKSPACE_MANIFEST_FILE);
+  if (!manifestEntry) throw new Error(`The archive has no ${WORKSPACE_MANIFEST_FILE}.`);
+  const raw = safeParseJSON(new TextDecoder().decode(manifestEntry.data));
+  if (!raw || typeof raw !== "object" || (raw as any).format !== WORKSPACE_ARCHIVE_FORMAT) throw new Error("This is not a workspace backup.");
+  if (Number((raw as any).version) > 1) throw new Error("This backup was made by a newer version of the app.");
+
+  const images = new Map<string, string>();
+  for (const entry of entries) {
+    if (!entry.name.startsWith("images/")) continue;
+    const ext = entry.name.slice(entry.name.lastIndexOf(".") + 1).toLowerCase();
+    const mime = ARCHIVE_IMAGE_TYPES.find((t) => t.ext === ext)?.mime || "application/octet-stream";
+    images.set(entry.name, `data:${mime};base64,${bytesToBase64(entry.data)}`);
+  }
+  const data = restoreArchiveImages(raw, images) as any;
+
+  const collections = {} as Record<WorkspaceCollectionKey, any[]>;
+  for (const { key, store, normalize } of WORKSPACE_COLLECTIONS) {
+    const fromVersion = Number(data.schemaVersions?.[store]) || 0;
+    collections[key] = (Array.isArray(data[key]) ? data[key] : [])
+      .map((r: any) => (r && typeof r === "object" ? normalize(migrateRecord(store, { schemaVersion: fromVersion, ...r })) : null))
+      .filter(Boolean);
+  }
+  const proxy = data.proxy && typeof data.proxy === "object" ? data.proxy : {};
+  return {
+    format: WORKSPACE_ARCHIVE_FORMAT,
+    version: 1,
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+    includesApiKeys: data.includesApiKeys === true,
+    schemaVersions: Object.fromEntries(IDB_STORES.map((s) => [s.name, getLatestSchemaVersion(s.name)])) as Record<IdbStoreName, number>,
+    ...collections,
+    personas: (Array.isArray(data.personas) ? data.personas : []).map(normalizePersona).filter((p: Persona | null): p is Persona => !!p),
+    defaultPersonaId: typeof data.defaultPersonaId === "string" ? data.defaultPersonaId : "",
+    proxy: { ...DEFAULT_PROXY, ...proxy, apiKey: typeof proxy.apiKey === "string" ? proxy.apiKey : "" },
+    connectionProfiles: (Array.isArray(data.connectionProfiles) ? data.connectionProfiles : [])
+      .map((p: any) => normalizeConnectionProfile(p))
+      .filter((p: ConnectionProfile | null): p is ConnectionProfile => !!p),
+    activeProfileId: typeof data.activeProfileId === "string" ? data.activeProfileId : "",
+    taskProfileIds: data.taskProfileIds && typeof data.taskProfileIds === "object" ? data.taskProfileIds : {},
+  };
+}
+
+type WorkspaceConflict = {
+  collection: string;
+  id: string;
+  name: string;
+  kept: "current" | "archive";
+};
+
+function getRecordLabel(record: any) {
+  return collapseWhitespace(record?.name || record?.title || record?.characterName || "") || "Untitled";
+}
+
+// Compares records the way they round-trip through JSON: key order does not matter and undefined fields count
+// as absent.
+function isSameRecordValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((x, i) => isSameRecordValue(x, b[i]));
+  }
+  const definedKeys = (o: object) => Object.keys(o).filter((k) => (o as Record<string, unknown>)[k] !== undefined);
+  const keys = definedKeys(a);
+  return (
+    keys.length === definedKeys(b).length &&
+    keys.every((k) => Object.prototype.hasOwnProperty.call(b, k) && isSameRecordValue((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]))
+  );
+}
+
+// Merge keeps the newer copy of a record whose id exists on both sides (the current one on a tie); replace
+// takes the archive as is. Either way, ids present on both sides with different content are reported.
+function mergeWorkspaceRecords<T extends { id: string; updatedAt: string }>(collection: string, current: T[], incoming: T[], mode: "merge" | "replace") {
+  const currentById = new Map(current.map((r) => [r.id, r]));
+  const conflicts: WorkspaceConflict[] = [];
+  const byId = new Map(mode === "merge" ? current.map((r) => [r.id, r]) : []);
+  for (const record of incoming) {
+    const existing = currentById.get(record.id);
+    if (existing && !isSameRecordValue(existing, record)) {
+      const keepArchive = mode === "replace" || record.updatedAt > existing.updatedAt;
+      conflicts.push({ collection, id: record.id, name: getRecordLabel(keepArchive ? record : existing), kept: keepArchive ? "archive" : "current" });
+      byId.set(record.id, keepArchive ? record : existing);
+    } else {
+      byId.set(record.id, existing || record);
+    }
+  }
+  return {
+    records: Array.from(byId.values()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    conflicts,
+  };
+}
+
+// The record an open editor has to reload after a restore: the new copy of `id` when it replaced the one being
+// edited, otherwise null.
+function getReplacedOpenRecord<T extends { id: string }>(current: T[], next: T[], id: string | null) {
+  if (!id) return null;
+  const restored = next.find((r) => r.id === id);
+  return restored && restored !== current.find((r) => r.id === id) ? restored : null;
+}
+
+// The collections covered by undo/redo. Chat sessions and settings are not part of it.
+type HistorySnapshot = {
+  characters: Character[];
+  stories: StoryProject[];
+  lorebooks: Lorebook[];
+  characterCards: CharacterCard[];
+};
+
+const HISTORY_LIMIT = 100;
+// Consecutive edits to the same records within this window, such as typing, form one undo step.
+const HISTORY_COALESCE_MS = 1000;
+
+// Names the records that differ between two snapshots, e.g. "stories:a|lorebooks:-b" (removed ids get a minus).
+// Returns "" when nothing changed.
+function getHistoryChangeKey(prev: HistorySnapshot, next: HistorySnapshot) {
+  return (Object.keys(next) as (keyof HistorySnapshot)[])
+    .filter((k) => prev[k] !== next[k])
+    .map((k) => {
+      const before = new Map<string, unknown>(prev[k].map((r) => [r.id, r]));
+      const afterIds = new Set(next[k].map((r) => r.id));
+      const changed = next[k].filter((r) => before.get(r.id) !== r).map((r) => r.id);
+      const removed = prev[k].filter((r) => !afterIds.has(r.id)).map((r) => `-${r.id}`);
+      return changed.length || removed.length ? `${k}:${[...changed, ...removed].join(",")}` : "";
+    })
+    .filter(Boolean)
+    .join("|");
+}
+
+// Trash ids of the deletable records in a snapshot, so undo/redo can tell which of them it removes or brings back.
+function getHistoryTrashIds(snapshot: HistorySnapshot) {
+  const ids = new Set<string>([...snapshot.characters, ...snapshot.stories, ...snapshot.lorebooks].map((r) => r.id));
+  for (const book of snapshot.lorebooks) for (const faction of book.factions) ids.add(`${book.id}:${faction.id}`);
+  return ids;
+}
+
+const TRASH_KINDS: { kind: TrashKind; label: string; store: IdbStoreName }[] = [
+  { kind: "character", label: "Character", store: "characters" },
+  { kind: "story", label: "Story", store: "stories" },
+  { kind: "lorebook", label: "Lorebook", store: "lorebooks" },
+  { kind: "chat_session", label: "Chat", store: "chat_sessions" },
+  // Factions live inside lorebook records, so they follow the lorebook schema.
+  { kind: "faction", label: "Faction", store: "lorebooks" },
+];
+
+// The records that can point at a trashed item.
+type TrashReferenceData = {
+  characters: Character[];
+  stories: StoryProject[];
+  characterCards: CharacterCard[];
+  personas: Persona[];
+};
+
+function createEmptyTrashRefs(): TrashRefs {
+  return { cardIds: [], storyIds: [], characterIds: [], personaIds: [], boardNodes: [], relationships: [] };
+}
+
+// Removes every reference to a deleted character, story or lorebook and reports where they were. Records that
+// did not point at it are returned unchanged.
+function detachTrashReferences(kind: TrashKind, id: string, data: TrashReferenceData): { data: TrashReferenceData; refs: TrashRefs } {
+  const refs = createEmptyTrashRefs();
+  const now = new Date().toISOString();
+  if (kind === "character") {
+    const characterCards = data.characterCards.map((card) => {
+      if (!card.characterIds.includes(id)) return card;
+      refs.cardIds.push(card.id);
+      return { ...card, characterIds: card.characterIds.filter((x) => x !== id), updatedAt: now };
+    });
+    const stories = data.stories.map((story) => {
+      const nodes = story.boardNodes.filter((n) => n.characterId === id);
+      const relationships = story.relationships.filter((r) => r.fromCharacterId === id || r.toCharacterId === id);
+      if (!story.characterIds.includes(id) && !nodes.length && !relationships.length) return story;
+      if (story.characterIds.includes(id)) refs.storyIds.push(story.id);
+      refs.boardNodes.push(...nodes.map((node) => ({ storyId: story.id, node })));
+      refs.relationships.push(...relationships.map((relationship) => ({ storyId: story.id, relationship })));
+      return {
+        ...story,
+        characterIds: story.characterIds.filter((x) => x !== id),
+        boardNodes: story.boardNodes.filter((n) => n.characterId !== id),
+        relationships: story.relationships.filter((r) => r.fromCharacterId !== id && r.toCharacterId !== id),
+        updatedAt: now,
+      };
+    });
+    return { data: { ...data, characterCards, stories }, refs };
+  }
+  if (kind === "story") {
+    const characterCards = data.characterCards.map((card) => {
+      if (card.relationshipStoryId !== id) return card;
+      refs.cardIds.push(card.id);
+      return { ...card, relationshipStoryId: undefined, updatedAt: now };
+    });
+    return { data: { ...data, characterCards }, refs };
+  }
+  if (kind === "lorebook") {
+    const characters = data.characters.map((c) => {
+      if (!(c.assignedLorebookIds || []).includes(id)) return c;
+      refs.characterIds.push(c.id);
+      return { ...c, assignedLorebookIds: c.assignedLorebookIds.filter((x) => x !== id), updatedAt: now };
+    });
+    const stories = data.stories.map((story) => {
+      if (!story.assignedLorebookIds.includes(id)) return story;
+      refs.storyIds.push(story.id);
+      return { ...story, assignedLorebookIds: story.assignedLorebookIds.filter((x) => x !== id), updatedAt: now };
+    });
+    const personas = data.personas.map((p) => {
+      if (!p.lorebookIds.includes(id)) return p;
+      refs.personaIds.push(p.id);
+      return { ...p, lorebookIds: p.lorebookIds.filter((x) => x !== id), updatedAt: now };
+    });
+    return { data: { ...data, characters, stories, personas }, refs };
+  }
+  return { data, refs };
+}
+
+// Puts back the references recorded by detachTrashReferences wherever the referencing record still exists.
+function reattachTrashReferences(kind: TrashKind, id: string, refs: TrashRefs, data: TrashReferenceData): TrashReferenceData {
+  const now = new Date().toISOString();
+  const addId = (ids: string[]) => (ids.includes(id) ? ids : [...ids, id]);
+  if (kind === "character") {
+    return {
+      ...data,
+      characterCards: data.characterCards.map((card) =>
+        refs.cardIds.includes(card.id) ? { ...card, characterIds: addId(card.characterIds), updatedAt: now } : card
+      ),
+      stories: data.stories.map((story) => {
+        const nodes = refs.boardNodes.filter((n) => n.storyId === story.id).map((n) => n.node);
+        const relationships = refs.relationships
+          .filter((r) => r.storyId === story.id && !story.relationships.some((x) => x.id === r.relationship.id))
+          .map((r) => r.relationship)
+          .filter((r) => [r.fromCharacterId, r.toCharacterId].every((x) => x === id || story.characterIds.includes(x)));
+        if (!refs.storyIds.includes(story.id) && !nodes.length && !relationships.length) return story;
+        return {
+          ...story,
+          characterIds: refs.storyIds.includes(story.id) ? addId(story.characterIds) : story.characterIds,
+          boardNodes: story.boardNodes.some((n) => n.characterId === id) ? story.boardNodes : [...story.boardNodes, ...nodes],
+          relationships: [...story.relationships, ...relationships],
+          updatedAt: now,
+        };
+      }),
+    };
+  }
+  if (kind === "story") {
+    return {
+      ...data,
+      characterCards: data.characterCards.map((card) =>
+        refs.cardIds.includes(card.id) && !card.relationshipStoryId ? { ...card, relationshipStoryId: id, updatedAt: now } : card
+      ),
+    };
+  }
+  if (kind === "lorebook") {
+    return {
+      ...data,
+      characters: data.characters.map((c) =>
+        refs.characterIds.includes(c.id) ? { ...c, assignedLorebookIds: addId(c.assignedLorebookIds || []), updatedAt: now } : c
+      ),
+      stories: data.stories.map((story) =>
+        refs.storyIds.includes(story.id) ? { ...story, assignedLorebookIds: addId(story.assignedLorebookIds), updatedAt: now } : story
+      ),
+      personas: data.personas.map((p) => (refs.personaIds.includes(p.id) ? { ...p, lorebookIds: addId(p.lorebookIds), updatedAt: now } : p)),
+    };
+  }
+  return data;
+}
+
+// Ids of trash items deleted more than `days` ago; 0 keeps everything.
+function getExpiredTrashIds(items: TrashItem[], days: number, now = Date.now()) {
+  if (!(days > 0)) return [];
+  const cutoff = now - days * 24 * 60 * 60 * 1000;
+  return items.filter((item) => Date.parse(item.deletedAt) < cutoff).map((item) => item.id);
+}
+
+function normalizeTrashItem(raw: any): TrashItem | null {
+  if (!raw || typeof raw !== "object" || typeof raw.id !== "string" || !raw.record || typeof raw.record !== "object") return null;
+  if (!TRASH_KINDS.some((k) => k.kind === raw.kind)) return null;
+  const refs = createEmptyTrashRefs();
+  for (const key of ["cardIds", "storyIds", "characterIds", "personaIds"] as const) refs[key] = normalizeStringArray(raw.refs?.[key]);
+  refs.boardNodes = Array.isArray(raw.refs?.boardNodes) ? raw.refs.boardNodes.filter((n: any) => typeof n?.storyId === "string" && n.node) : [];
+  refs.relationships = Array.isArray(raw.refs?.relationships) ? raw.refs.relationships.filter((r: any) => typeof r?.storyId === "string" && r.relationship) : [];
+  if (raw.kind === "faction" && typeof raw.lorebookId !== "string") return null;
+  return {
+    ...raw,
+    deletedAt: typeof raw.deletedAt === "string" ? raw.deletedAt : new Date().toISOString(),
+    recordSchemaVersion: Number.isInteger(raw.recordSchemaVersion) && raw.recordSchemaVersion > 0 ? raw.recordSchemaVersion : 0,
+    refs,
+  } as TrashItem;
+}
+
+// The connection is shared so transactions run in the order they were started.
+let idbConnection: Promise<IDBDatabase> | null = null;
+
+function openIdb(): Promise<IDBDatabase> {
+  if (idbConnection) return idbConnection;
+  idbConnection = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const req = indexedDB.open(IDB_NAME, IDB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const store of IDB_STORES) {
+        if (!db.objectStoreNames.contains(store.name)) db.createObjectStore(store.name, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(IDB_MIGRATION_BACKUP_STORE)) db.createObjectStore(IDB_MIGRATION_BACKUP_STORE, { keyPath: "id" });
+    };
     req.onsuccess = () => {
-      const arr = Array.isArray(req.result) ? (req.result as any[]) : [];
-      const normalized = arr
-        .map(normalizeCharacter)
-        .filter((x): x is Character => !!x);
-      resolve(normalized);
+      const db = req.result;
+      db.onversionchange = () => {
+        db.close();
+        idbConnection = null;
+      };
+      resolve(db);
     };
-    req.onerror = () => reject(req.error || new Error("Failed to read characters."));
-  }).finally(() => db.close());
+    req.onerror = () => reject(req.error || new Error("Failed to open database."));
+  });
+  idbConnection.catch(() => {
+    idbConnection = null;
+  });
+  return idbConnection;
+}
+
+async function idbGetAll(store: IdbStoreName): Promise<any[]> {
+  const db = await openIdb();
+  return new Promise<any[]>((resolve, reject) => {
+    const req = db.transaction(store, "readonly").objectStore(store).getAll();
+    req.onsuccess = () => resolve(Array.isArray(req.result) ? req.result : []);
+    req.onerror = () => reject(req.error || new Error(`Failed to read ${store}.`));
+  });
 }
 
-async function idbPutManyCharacters(chars: Character[]): Promise<void> {
+// Puts and deletes records in one transaction. Everything written is in the current shape, so it is stamped
+// with the store's latest schema version.
+async function idbWriteRecords(store: IdbStoreName, puts: { id: string }[], deleteIds: string[] = []): Promise<void> {
   const db = await openIdb();
+  const schemaVersion = getLatestSchemaVersion(store);
   await new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(IDB_STORE, "readwrite");
-    const store = tx.objectStore(IDB_STORE);
-    for (const c of chars) store.put(c);
+    const tx = db.transaction(store, "readwrite");
+    const os = tx.objectStore(store);
+    for (const record of puts) os.put({ ...record, schemaVersion });
+    for (const id of deleteIds) os.delete(id);
     tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error || new Error("Failed to write characters."));
+    tx.onerror = () => reject(tx.error || new Error(`Failed to write ${store}.`));
     tx.onabort = () => reject(tx.error || new Error("Write aborted."));
-  }).finally(() => db.close());
+  });
+}
+
+// The last saved object for each record id, per store.
+type SavedRecords = Partial<Record<IdbStoreName, Map<string, unknown>>>;
+
+// Writes only the records whose object changed since the last call and deletes the ones that are gone; state
+// updates keep untouched records identical, so an edit costs one put. The first call per store only records
+// the loaded data. Failed records are forgotten so the next change retries them.
+function persistCollectionChanges(saved: SavedRecords, store: IdbStoreName, items: { id: string }[], onResult: (error: string | null) => void) {
+  const previous = saved[store];
+  const next = new Map<string, unknown>(items.map((r) => [r.id, r]));
+  saved[store] = next;
+  if (!previous) return;
+  const puts = items.filter((r) => previous.get(r.id) !== r);
+  const deleteIds = Array.from(previous.keys()).filter((id) => !next.has(id));
+  if (!puts.length && !deleteIds.length) return;
+  idbWriteRecords(store, puts, deleteIds).then(
+    () => onResult(null),
+    (e: any) => {
+      const current = saved[store];
+      for (const r of puts) if (current?.get(r.id) === r) current.delete(r.id);
+      for (const id of deleteIds) if (current && !current.has(id)) current.set(id, null);
+      const label = IDB_STORES.find((x) => x.name === store)?.label || store;
+      onResult(`Could not save ${label}. ${e?.message ? String(e.message) : "The browser refused the write."} Recent changes may be lost on reload.`);
+    }
+  );
 }
 
-async function idbDeleteCharacter(id: string): Promise<void> {
+// Keeps the newer copy (by updatedAt) of records that share an id; records without one get a fresh id.
+function mergeRecordsById(...lists: any[][]) {
+  const byId = new Map<string, any>();
+  for (const record of lists.flat()) {
+    if (!record || typeof record !== "object") continue;
+    const withId = typeof record.id === "string" && record.id ? record : { ...record, id: uid() };
+    const existing = byId.get(withId.id);
+    if (!existing || String(withId.updatedAt || "") > String(existing.updatedAt || "")) byId.set(withId.id, withId);
+  }
+  return Array.from(byId.values());
+}
+
+type SchemaMigration = {
+  version: number;
+  description: string;
+  // Receives a record at version - 1 and returns a new object; never mutates its input.
+  migrate: (record: any) => any;
+};
+
+// Ordered steps per collection. Records without a schemaVersion predate versioning and count as version 0.
+// Add a step here whenever a stored shape changes, and a fixture for the old shape in runTests.
+const SCHEMA_MIGRATIONS: Record<IdbStoreName, SchemaMigration[]> = {
+  characters: [
+    {
+      version: 1,
+      description: "Single intro message becomes a list of intro messages",
+      migrate: ({ introMessage, ...c }) => {
+        if (Array.isArray(c.introMessages) && c.introMessages.length) return c;
+        const legacy = typeof introMessage === "string" ? collapseWhitespace(introMessage) : "";
+        return { ...c, introMessages: legacy ? [legacy] : [""], selectedIntroIndex: 0 };
+      },
+    },
+    {
+      version: 2,
+      description: "Personality moves to the personalities list",
+      migrate: ({ personality, ...c }) =>
+        c.personalities === undefined && personality !== undefined ? { ...c, personalities: normalizeStringArray(personality) } : c,
+    },
+  ],
+  character_cards: [
+    {
+      version: 1,
+      description: "Cards carry a first-message list and a selected index",
+      migrate: (card) => ({
+        ...card,
+        firstMessageMessages: normalizeStringArray(card.firstMessageMessages).length ? card.firstMessageMessages : [""],
+        selectedFirstMessageIndex: Number.isFinite(Number(card.selectedFirstMessageIndex)) ? Number(card.selectedFirstMessageIndex) : 0,
+      }),
+    },
+  ],
+  stories: [
+    {
+      version: 1,
+      description: "First message becomes a list of first-message versions",
+      migrate: (story) => {
+        if (normalizeStringArray(story.firstMessageVersions).length) return story;
+        const legacy = typeof story.firstMessage === "string" && collapseWhitespace(story.firstMessage) ? story.firstMessage : "";
+        return { ...story, firstMessageVersions: [legacy], selectedFirstMessageIndex: 0 };
+      },
+    },
+  ],
+  lorebooks: [
+    {
+      version: 1,
+      description: "World text becomes the World Overview entry",
+      migrate: ({ world, ...book }) =>
+        book.worldEntry
+          ? book
+          : {
+              ...book,
+              worldEntry: { name: "World Overview", content: typeof world === "string" ? world : "", tagsRaw: "world", keysRaw: "world" },
+            },
+    },
+    {
+      version: 2,
+      description: "Powers are renamed to specials",
+      migrate: ({ powers, ...book }) =>
+        Array.isArray(book.specialsEntries) || !Array.isArray(powers) ? book : { ...book, specialsEntries: powers },
+    },
+    {
+      version: 3,
+      description: "World Overview entries without their own keys become always active",
+      // Whole books used to be injected, so a keyless world entry was always in context; under keyword scanning
+      // it would only fire on the literal text "World Overview".
+      migrate: (book) => {
+        const entry = book.worldEntry;
+        if (!entry || typeof entry !== "object") return book;
+        const setting = entry.activationSetting;
+        const keys = typeof entry.keysRaw === "string" ? splitCsv(entry.keysRaw) : [];
+        const keyless = !keys.length || (keys.length === 1 && keys[0].toLowerCase() === "world");
+        if ((setting !== undefined && setting !== "any_key") || !keyless) return book;
+        return { ...book, worldEntry: { ...entry, activationSetting: "always_active" } };
+      },
+    },
+  ],
+  trash: [],
+  chat_sessions: [
+    {
+      version: 1,
+      description: "Story sessions store their turn mode",
+      migrate: (session) =>
+        typeof session.storyId === "string" && session.storyId && !session.turnMode ? { ...session, turnMode: "turn_order" } : session,
+    },
+  ],
+};
+
+function getLatestSchemaVersion(store: IdbStoreName) {
+  return SCHEMA_MIGRATIONS[store].reduce((max, step) => Math.max(max, step.version), 0);
+}
+
+function getRecordSchemaVersion(record: any) {
+  const version = Number(record?.schemaVersion);
+  return Number.isInteger(version) && version > 0 ? version : 0;
+}
+
+// Runs every step newer than the record's version, in order. Records from a newer build are left alone.
+function migrateRecord(store: IdbStoreName, record: any) {
+  if (!record || typeof record !== "object") return record;
+  const from = getRecordSchemaVersion(record);
+  const latest = getLatestSchemaVersion(store);
+  if (from >= latest) return record;
+  const migrated = SCHEMA_MIGRATIONS[store]
+    .filter((step) => step.version > from)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, step) => step.migrate(current), record);
+  return { ...migrated, schemaVersion: latest };
+}
+
+type MigrationBackup = {
+  id: string;
+  store: IdbStoreName;
+  createdAt: string;
+  toVersion: number;
+  records: unknown[];
+};
+
+// Saves the untouched records before a migration overwrites them and drops the oldest backups past the limit.
+async function idbSaveMigrationBackup(store: IdbStoreName, records: unknown[]): Promise<void> {
   const db = await openIdb();
+  const createdAt = new Date().toISOString();
+  const backup: MigrationBackup = { id: `${createdAt}_${store}`, store, createdAt, toVersion: getLatestSchemaVersion(store), records };
   await new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(IDB_STORE, "readwrite");
-    const store = tx.objectStore(IDB_STORE);
-    store.delete(id);
+    const tx = db.transaction(IDB_MIGRATION_BACKUP_STORE, "readwrite");
+    const os = tx.objectStore(IDB_MIGRATION_BACKUP_STORE);
+    os.put(backup);
+    const keysReq = os.getAllKeys();
+    keysReq.onsuccess = () => {
+      const keys = keysReq.result.map(String).sort();
+      for (const key of keys.slice(0, Math.max(0, keys.length - MIGRATION_BACKUP_LIMIT))) os.delete(key);
+    };
     tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error || new Error("Failed to delete character."));
-    tx.onabort = () => reject(tx.error || new Error("Delete aborted."));
-  }).finally(() => db.close());
+    tx.onerror = () => reject(tx.error || new Error("Failed to save the migration backup."));
+    tx.onabort = () => reject(tx.error || new Error("Backup aborted."));
+  });
 }
 
+// Reads a collection from IndexedDB, folds in whatever is still under its old localStorage key and brings every
+// record up to the latest schema. Outdated records are backed up before the migrated copies are written, and
+// nothing is rewritten if the backup fails. The legacy key is removed only once the merged records are in the
+// store; if the database fails, the old records are returned migrated in memory with the error so nothing is lost.
+async function loadStoredCollection(store: IdbStoreName, legacyKey?: string): Promise<{ records: any[]; error?: string }> {
+  const legacy = legacyKey ? safeParseJSON(localStorage.getItem(legacyKey) || "") : null;
+  const legacyRecords = Array.isArray(legacy) ? legacy : [];
+  try {
+    const stored = await idbGetAll(store);
+    const merged = legacyRecords.length ? mergeRecordsById(stored, legacyRecords) : stored;
+    const latest = getLatestSchemaVersion(store);
+    const outdated = merged.filter((r) => getRecordSchemaVersion(r) < latest);
+    const records = merged.map((r) => migrateRecord(store, r));
+    if (outdated.length) {
+      try {
+        await idbSaveMigrationBackup(store, outdated);
+      } catch (e: any) {
+        return { records, error: `Skipped upgrading saved ${store} because the backup failed. ${e?.message ? String(e.message) : ""}`.trim() };
+      }
+    }
+    if (legacyKey && legacyRecords.length) {
+      await idbWriteRecords(store, records);
+      localStorage.removeItem(legacyKey);
+    } else if (outdated.length) {
+      const outdatedIds = new Set(outdated.map((r) => r.id));
+      await idbWriteRecords(store, records.filter((r) => outdatedIds.has(r.id)));
+    }
+    return { records };
+  } catch (e: any) {
+    return { records: legacyRecords.map((r) => migrateRecord(store, r)), error: e?.message ? String(e.message) : `Failed to load ${store}.` };
+  }
+}
 
 function xmlEscape(input: string) {
   return String(input || "")
@@ -561,18 +2713,277 @@ function characterToTxt(c: Character) {
   ].join("\n");
 }
 
+const CHARACTER_CARD_EXTENSION_KEY = "mastercreator";
+
+function characterToCardDescription(c: Character) {
+  const backstory = c.backstory || [];
+  const selectedBackstory = backstory.length ? backstory[clampIndex(c.selectedBackstoryIndex || 0, backstory.length)] || "" : "";
+  const fields: Array<[string, string]> = [
+    ["Gender", c.gender || ""],
+    ["Age", c.age === "" ? "" : String(c.age)],
+    ["Height", c.height || ""],
+    ["Origin", c.origins || ""],
+    ["Race", c.race || ""],
+    ["Physical appearance", (c.physicalAppearance || []).join(", ")],
+    ["Unique traits", (c.uniqueTraits || []).join(", ")],
+    ["Response to problems", (c.respondToProblems || []).join(", ")],
+    ["Sexual behavior", (c.sexualBehavior || []).join(", ")],
+    ["Speech patterns", (c.speechPatterns || []).join(", ")],
+    ["Backstory", selectedBackstory],
+  ];
+  return fields
+    .filter(([, value]) => collapseWhitespace(value))
+    .map(([label, value]) => `${label}: ${value}`)
+    .join("\n");
+}
+
+function lorebooksToCharacterBook(books: Lorebook[], options: LoreScanOptions = {}) {
+  if (!books.length) return undefined;
+  let nextId = 0;
+  const entries = books.flatMap((book) =>
+    Object.values(lorebookToWorldInfo(book, options).entries).map((e: any) => {
+      nextId += 1;
+      return {
+        id: nextId,
+        keys: e.key,
+        secondary_keys: e.keysecondary,
+        name: e.name,
+        comment: e.comment,
+        content: e.content,
+        constant: e.constant,
+        selective: e.selective,
+        enabled: !e.disable,
+        insertion_order: e.order,
+        priority: e.priority,
+        case_sensitive: e.caseSensitive,
+        position: e.position === 1 ? "after_char" : "before_char",
+        use_regex: false,
+        extensions: {
+          position: e.position,
+          probability: e.probability,
+          useProbability: e.useProbability,
+          match_whole_words: e.matchWholeWords,
+          group_weight: e.groupWeight,
+          [CHARACTER_CARD_EXTENSION_KEY]: {
+            book: book.name,
+            category: e.category,
+            activationSetting: e.activationSetting,
+            keyMatchMode: e.keyMatchMode,
+            keyMatchPriority: e.keyMatchPriority,
+            insertionOrder: e.insertionOrder,
+            minMessages: e.minMessages,
+            factionType: e.factionType,
+            factionSize: e.factionSize,
+          },
+        },
+      };
+    })
+  );
+  return {
+    name: books.map((b) => b.name).join(" + "),
+    description: books.map((b) => b.description).filter(Boolean).join("\n\n"),
+    scan_depth: LOREBOOK_SCAN_DEPTH,
+    token_budget: options.tokenBudget ?? DEFAULT_PROXY.loreTokenBudget,
+    recursive_scanning: options.recursive ?? DEFAULT_PROXY.loreRecursiveScanning,
+    extensions: {},
+    entries,
+  };
+}
+
+function characterToCardV2(c: Character, books: Lorebook[] = [], options: LoreScanOptions = {}) {
+  const intros = c.introMessages || [];
+  const selectedIntro = intros.length ? clampIndex(c.selectedIntroIndex || 0, intros.length) : 0;
+  const selectedRuleTexts = STORY_SYSTEM_RULE_CARDS
+    .filter((r) => (c.selectedSystemRuleIds || []).includes(r.id))
+    .map((r) => r.text);
+  return {
+    spec: "chara_card_v2",
+    spec_version: "2.0",
+    data: {
+      name: c.name,
+      description: characterToCardDescription(c),
+      personality: (c.personalities || []).join(", "),
+      scenario: c.synopsis || "",
+      first_mes: intros[selectedIntro] || "",
+      mes_example: "",
+      creator_notes: "",
+      system_prompt: [...selectedRuleTexts, c.systemRules || ""].filter((x) => collapseWhitespace(x)).join("\n"),
+      post_history_instructions: "",
+      alternate_greetings: intros.filter((m, i) => i !== selectedIntro && collapseWhitespace(m)),
+      character_book: lorebooksToCharacterBook(books, options),
+      tags: [] as string[],
+      creator: "",
+      character_version: "",
+      extensions: {},
+    },
+  };
+}
+
+function characterToCardV3(c: Character, books: Lorebook[] = [], options: LoreScanOptions = {}) {
+  const v2 = characterToCardV2(c, books, options);
+  const toUnix = (iso: string) => Math.floor((Date.parse(iso) || Date.now()) / 1000);
+  return {
+    spec: "chara_card_v3",
+    spec_version: "3.0",
+    data: {
+      ...v2.data,
+      group_only_greetings: [] as string[],
+      creation_date: toUnix(c.createdAt),
+      modification_date: toUnix(c.updatedAt),
+    },
+  };
+}
+
+// Prefers the V3 "ccv3" chunk over the V2 "chara" chunk when both are present.
+function extractCharacterCardFromPng(png: Uint8Array) {
+  const texts = new Map<string, string>();
+  for (const chunk of readPngChunks(png)) {
+    if (chunk.type !== "tEXt") continue;
+    const sep = chunk.data.indexOf(0);
+    if (sep < 0) continue;
+    const keyword = String.fromCharCode(...chunk.data.subarray(0, sep));
+    if (keyword === "chara" || keyword === "ccv3") {
+      texts.set(keyword, new TextDecoder().decode(chunk.data.subarray(sep + 1)));
+    }
+  }
+  const encoded = texts.get("ccv3") ?? texts.get("chara");
+  if (!encoded) return null;
+  return safeParseJSON(new TextDecoder().decode(base64ToBytes(encoded.trim())));
+}
+
+function stripCharacterCardFromPng(png: Uint8Array) {
+  return writePngChunks(readPngChunks(png).filter((chunk) => {
+    if (chunk.type !== "tEXt") return true;
+    const keyword = String.fromCharCode(...chunk.data.subarray(0, Math.max(0, chunk.data.indexOf(0))));
+    return keyword !== "chara" && keyword !== "ccv3";
+  }));
+}
+
+function splitCardList(text: string) {
+  const parts = splitCsv(text);
+  return parts.every((p) => p.length <= 40) ? parts : normalizeStringArray(text);
+}
+
+function characterBookToLorebooks(book: any, fallbackName: string): Lorebook[] {
+  if (!book || typeof book !== "object" || !Array.isArray(book.entries)) return [];
+  const groups = new Map<string, any[]>();
+  for (const e of book.entries) {
+    if (!e || typeof e !== "object") continue;
+    const ext = e.extensions && typeof e.extensions === "object" ? e.extensions : {};
+    const own = ext[CHARACTER_CARD_EXTENSION_KEY] && typeof ext[CHARACTER_CARD_EXTENSION_KEY] === "object" ? ext[CHARACTER_CARD_EXTENSION_KEY] : {};
+    const bookName = collapseWhitespace(own.book || book.name || fallbackName) || fallbackName;
+    const list = groups.get(bookName) || [];
+    list.push({
+      ...own,
+      name: e.name,
+      comment: e.comment,
+      content: e.content,
+      keys: e.keys,
+      secondary_keys: e.secondary_keys,
+      constant: e.constant,
+      selective: e.selective,
+      enabled: e.enabled,
+      order: e.insertion_order,
+      priority: e.priority,
+      caseSensitive: e.case_sensitive,
+      matchWholeWords: ext.match_whole_words,
+      probability: ext.probability,
+      useProbability: ext.useProbability,
+      groupWeight: ext.group_weight,
+      position: readImportedNumber(ext.position, e.position === "after_char" ? 1 : 0),
+    });
+    groups.set(bookName, list);
+  }
+  return Array.from(groups.entries())
+    .map(([name, entries]) => lorebookFromWorldInfo({ name, description: groups.size === 1 ? book.description : "", entries }, name))
+    .filter((b): b is Lorebook => !!b);
+}
+
+// Accepts V1 (flat), V2 and V3 tavern cards. Description lines written by characterToCardDescription map back to fields;
+// any other description text becomes the backstory.
+function characterFromTavernCard(raw: any) {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw.data && typeof raw.data === "object" ? raw.data : raw;
+  const name = collapseWhitespace(data.name);
+  if (!name) return null;
+
+  const fields: Record<string, string> = {};
+  const backstoryLines: string[] = [];
+  const labels: Record<string, string> = {
+    gender: "gender",
+    age: "age",
+    height: "height",
+    origin: "origins",
+    race: "race",
+    "physical appearance": "physicalAppearance",
+    "unique traits": "uniqueTraits",
+    "response to problems": "respondToProblems",
+    "sexual behavior": "sexualBehavior",
+    "speech patterns": "speechPatterns",
+    backstory: "backstory",
+  };
+  let inBackstory = false;
+  for (const line of String(data.description || "").split(/\r?\n/)) {
+    const m = inBackstory ? null : line.match(/^([A-Za-z ]+):\s*(.*)$/);
+    const key = m ? labels[m[1].trim().toLowerCase()] : undefined;
+    if (m && key === "backstory") {
+      inBackstory = true;
+      backstoryLines.push(m[2]);
+    } else if (m && key) {
+      fields[key] = m[2];
+    } else {
+      backstoryLines.push(line);
+    }
+  }
+
+  const systemPromptLines = String(data.system_prompt || "").split(/\r?\n/);
+  const selectedSystemRuleIds = STORY_SYSTEM_RULE_CARDS
+    .filter((r) => systemPromptLines.some((l) => l.trim() === r.text))
+    .map((r) => r.id);
+  const systemRules = systemPromptLines
+    .filter((l) => !STORY_SYSTEM_RULE_CARDS.some((r) => l.trim() === r.text))
+    .join("\n")
+    .trim();
+
+  const intros = [data.first_mes, ...(Array.isArray(data.alternate_greetings) ? data.alternate_greetings : [])]
+    .map((m) => String(m ?? ""))
+    .filter((m) => collapseWhitespace(m));
+  const backstory = backstoryLines.join("\n").trim();
+  const ageNumber = Number(fields.age);
+
+  const character = normalizeCharacter({
+    name,
+    gender: fields.gender,
+    age: fields.age && Number.isFinite(ageNumber) ? ageNumber : "",
+    height: fields.height,
+    origins: fields.origins,
+    race: fields.race,
+    personalities: splitCardList(String(data.personality || "")),
+    uniqueTraits: splitCardList(fields.uniqueTraits || ""),
+    physicalAppearance: splitCardList(fields.physicalAppearance || ""),
+    respondToProblems: splitCardList(fields.respondToProblems || ""),
+    sexualBehavior: splitCardList(fields.sexualBehavior || ""),
+    speechPatterns: [...splitCardList(fields.speechPatterns || ""), ...(collapseWhitespace(data.mes_example) ? [String(data.mes_example).trim()] : [])],
+    systemRules,
+    selectedSystemRuleIds,
+    synopsis: typeof data.scenario === "string" ? data.scenario : "",
+  });
+  if (!character) return null;
+  character.introMessages = intros.length ? intros : [""];
+  character.backstory = backstory ? [backstory] : [];
+
+  const lorebooks = characterBookToLorebooks(data.character_book, `${name} lorebook`);
+  character.assignedLorebookIds = lorebooks.map((b) => b.id);
+  return { character, lorebooks };
+}
+
 function normalizeCharacter(x: any): Character | null {
   if (!x || typeof x !== "object") return null;
   if (typeof x.name !== "string") return null;
 
   const now = new Date().toISOString();
 
-  const introMessages = (() => {
-    const arr = normalizeStringArray(x.introMessages);
-    if (arr.length) return arr;
-    const legacy = collapseWhitespace(x.introMessage);
-    return legacy ? [legacy] : [""];
-  })();
+  const introMessages = normalizeStringArray(x.introMessages).length ? normalizeStringArray(x.introMessages) : [""];
 
   const selectedIntroIndex =
     typeof x.selectedIntroIndex === "number" &&
@@ -604,7 +3015,7 @@ function normalizeCharacter(x: any): Character | null {
     origins: typeof x.origins === "string" ? collapseWhitespace(x.origins) : "",
     racePreset,
     race,
-    personalities: normalizeStringArray(x.personalities ?? x.personality),
+    personalities: normalizeStringArray(x.personalities),
     uniqueTraits: normalizeStringArray(x.uniqueTraits),
     physicalAppearance: normalizeStringArray(x.physicalAppearance),
     respondToProblems: normalizeStringArray(x.respondToProblems),
@@ -623,6 +3034,162 @@ function normalizeCharacter(x: any): Character | null {
   };
 }
 
+function normalizeChatSession(s: any): ChatSession | null {
+  if (!s || typeof s !== "object") return null;
+  const msgs = Array.isArray(s.messages)
+    ? s.messages
+        .map((m: any) => {
+          const role = m?.role === "assistant" ? "assistant" : m?.role === "user" ? "user" : null;
+          const content = collapseWhitespace(m?.content ?? "");
+          if (!role || !content) return null;
+          const pages: GeneratedTextPage[] = Array.isArray(m?.swipes?.pages)
+            ? m.swipes.pages
+                .map((p: any) => ({
+                  id: typeof p?.id === "string" ? p.id : uid(),
+                  text: collapseWhitespace(p?.text ?? ""),
+                  isFinal: p?.isFinal !== false,
+                  ...(typeof p?.reasoning === "string" && p.reasoning.trim() ? { reasoning: p.reasoning } : {}),
+                }))
+                .filter((p: GeneratedTextPage) => p.text)
+            : [];
+          const reasoning = role === "assistant" && typeof m?.reasoning === "string" && m.reasoning.trim() ? { reasoning: m.reasoning } : {};
+          const speaker =
+            role === "assistant" && typeof m?.speakerId === "string" && m.speakerId
+              ? { speakerId: m.speakerId, speakerName: collapseWhitespace(m?.speakerName ?? "") }
+              : {};
+          if (role !== "assistant" || pages.length < 2) return { role, content, ...reasoning, ...speaker } as ChatMessage;
+          const activeIndex = clampIndex(Number(m.swipes.activeIndex) || 0, pages.length);
+          return {
+            role,
+            content: pages[activeIndex].text,
+            reasoning: pages[activeIndex].reasoning,
+            swipes: { pages, activeIndex },
+            ...speaker,
+          } as ChatMessage;
+        })
+        .filter(Boolean)
+    : [];
+  const id = typeof s.id === "string" ? s.id : uid();
+  const characterId = typeof s.characterId === "string" ? s.characterId : "";
+  const characterName = collapseWhitespace(s.characterName ?? "");
+  const storyId = typeof s.storyId === "string" && s.storyId ? s.storyId : undefined;
+  if ((!characterId && !storyId) || !characterName) return null;
+  const now = new Date().toISOString();
+  return {
+    id,
+    characterId,
+    characterName,
+    characterImageDataUrl:
+      typeof s.characterImageDataUrl === "string" ? s.characterImageDataUrl : "",
+    messages: msgs,
+    parentSessionId: typeof s.parentSessionId === "string" ? s.parentSessionId : undefined,
+    parentMessageIndex: Number.isFinite(Number(s.parentMessageIndex)) ? Number(s.parentMessageIndex) : undefined,
+    storyId,
+    personaId: typeof s.personaId === "string" && s.personaId ? s.personaId : undefined,
+    summary: typeof s.summary === "string" ? s.summary : undefined,
+    summarizedCount: Number.isFinite(Number(s.summarizedCount))
+      ? Math.max(0, Math.min(msgs.length, Math.floor(Number(s.summarizedCount))))
+      : undefined,
+    turnMode: STORY_TURN_MODES.some((m) => m.id === s.turnMode) ? s.turnMode : undefined,
+    createdAt: typeof s.createdAt === "string" ? s.createdAt : now,
+    updatedAt: typeof s.updatedAt === "string" ? s.updatedAt : now,
+  } as ChatSession;
+}
+
+function normalizeStory(s: any): StoryProject | null {
+  if (!s || typeof s !== "object") return null;
+  const id = typeof s.id === "string" ? s.id : uid();
+  const now = new Date().toISOString();
+  return {
+    id,
+    title: collapseWhitespace(s.title || "Untitled story"),
+    characterIds: normalizeStringArray(s.characterIds),
+    imageDataUrl: typeof s.imageDataUrl === "string" ? s.imageDataUrl : "",
+    scenario: typeof s.scenario === "string" ? s.scenario : "",
+    firstMessage: typeof s.firstMessage === "string" ? s.firstMessage : "",
+    firstMessageVersions: normalizeStringArray(s.firstMessageVersions).length
+      ? normalizeStringArray(s.firstMessageVersions)
+      : [""],
+    selectedFirstMessageIndex: Number.isFinite(Number(s.selectedFirstMessageIndex))
+      ? Math.max(0, Number(s.selectedFirstMessageIndex))
+      : 0,
+    firstMessageStyle: s.firstMessageStyle === "dramatic" || s.firstMessageStyle === "melancholic" ? s.firstMessageStyle : "realistic",
+    systemRules: typeof s.systemRules === "string" ? s.systemRules : "",
+    selectedSystemRuleIds: normalizeStringArray(s.selectedSystemRuleIds),
+    synopsis: typeof s.synopsis === "string" ? s.synopsis : "",
+    synopsisStyle: s.synopsisStyle === "dramatic" || s.synopsisStyle === "melancholic" ? s.synopsisStyle : "realistic",
+    relationships: Array.isArray(s.relationships) ? s.relationships : [],
+    boardNodes: Array.isArray(s.boardNodes) ? s.boardNodes : [],
+    assignedLorebookIds: normalizeStringArray(s.assignedLorebookIds),
+    personaId: typeof s.personaId === "string" && s.personaId ? s.personaId : undefined,
+    createdAt: typeof s.createdAt === "string" ? s.createdAt : now,
+    updatedAt: typeof s.updatedAt === "string" ? s.updatedAt : now,
+  } as StoryProject;
+}
+
+function normalizeLorebook(book: any): Lorebook | null {
+  if (!book || typeof book !== "object") return null;
+  const id = typeof book.id === "string" ? book.id : uid();
+  const now = new Date().toISOString();
+
+  const factions = Array.isArray(book.factions)
+    ? book.factions
+        .map((f: any, idx: number) => {
+          if (!f || typeof f !== "object") return null;
+          const name = collapseWhitespace(f.name ?? f.entry?.name ?? "");
+          if (!name) return null;
+          const entry = normalizeLoreEntry(f.entry, name, "faction", (idx + 1) * 100);
+          if (typeof f.description === "string" && !entry.content) entry.content = f.description;
+          return {
+            id: typeof f.id === "string" ? f.id : uid(),
+            name,
+            imageDataUrl: typeof f.imageDataUrl === "string" ? f.imageDataUrl : "",
+            factionType: f.factionType === "hostile" ? "hostile" : "passive",
+            factionSize: ["micro", "small", "medium", "large", "massive", "colossal", "mega-faction"].includes(f.factionSize) ? f.factionSize : "small",
+            details: typeof f.details === "string" ? f.details : entry.content,
+            entry,
+            createdAt: typeof f.createdAt === "string" ? f.createdAt : now,
+          } as LorebookFaction;
+        })
+        .filter((f: LorebookFaction | null): f is LorebookFaction => !!f)
+    : [];
+
+  const worldEntry = normalizeLoreEntry(book.worldEntry, "World Overview", "world", 100);
+
+  const locationEntries = Array.isArray(book.locationEntries)
+    ? book.locationEntries.map((entry: any, idx: number) => normalizeLoreEntry(entry, `Location ${idx + 1}`, "location", (idx + 1) * 100))
+    : [];
+
+  const rulesEntries = Array.isArray(book.rulesEntries)
+    ? book.rulesEntries.map((entry: any, idx: number) => normalizeLoreEntry(entry, `Rule ${idx + 1}`, "rule", (idx + 1) * 100))
+    : [];
+
+  const itemEntries = Array.isArray(book.itemEntries)
+    ? book.itemEntries.map((entry: any, idx: number) => normalizeLoreEntry(entry, `Item ${idx + 1}`, "item", (idx + 1) * 100))
+    : [];
+
+  const specialsEntries = Array.isArray(book.specialsEntries)
+    ? book.specialsEntries.map((entry: any, idx: number) => normalizeLoreEntry(entry, `Special ${idx + 1}`, "special", (idx + 1) * 100))
+    : [];
+
+  return {
+    id,
+    name: collapseWhitespace(book.name || "Untitled lorebook"),
+    description: typeof book.description === "string" ? book.description : "",
+    author: typeof book.author === "string" ? book.author : "",
+    metaTagsRaw: typeof book.metaTagsRaw === "string" ? book.metaTagsRaw : "",
+    coverImageDataUrl: typeof book.coverImageDataUrl === "string" ? book.coverImageDataUrl : "",
+    worldEntry,
+    locationEntries,
+    rulesEntries,
+    itemEntries,
+    specialsEntries,
+    factions,
+    createdAt: typeof book.createdAt === "string" ? book.createdAt : now,
+    updatedAt: typeof book.updatedAt === "string" ? book.updatedAt : now,
+  } as Lorebook;
+}
+
 function normalizeCharacterCard(x: any): CharacterCard | null {
   if (!x || typeof x !== "object") return null;
   const now = new Date().toISOString();
@@ -808,6 +3375,59 @@ function RichText({ text }: { text: string }) {
   return <>{String(text || "").split("\n").map((line, i) => <React.Fragment key={i}>{i > 0 ? <br /> : null}{renderInline(line)}</React.Fragment>)}</>;
 }
 
+function TokenCount({ text, className }: { text: string; className?: string }) {
+  return (
+    <span
+      className={cn("text-[11px] text-[hsl(var(--muted-foreground))]", className)}
+      title={bpeCountTokens ? "Counted with the cl100k_base tokenizer" : "Estimated; the tokenizer is still loading"}
+    >
+      {formatTokenCount(estimateTokens(text))}
+    </span>
+  );
+}
+
+type ContextBudgetPart = { label: string; tokens: number; color: string };
+
+// Stacked bar of what the next request will spend; it turns red when the parts overflow the context.
+function ContextBudgetBar({ parts, contextSize }: { parts: ContextBudgetPart[]; contextSize: number }) {
+  const used = parts.reduce((sum, p) => sum + p.tokens, 0);
+  const scale = Math.max(used, contextSize, 1);
+  return (
+    <div className="space-y-1">
+      <div className="flex h-2 overflow-hidden rounded-full bg-[hsl(var(--muted))]">
+        {parts.map((p) =>
+          p.tokens > 0 ? (
+            <div key={p.label} title={`${p.label}: ${formatTokenCount(p.tokens)}`} style={{ width: `${(p.tokens / scale) * 100}%`, background: p.color }} />
+          ) : null
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px] text-[hsl(var(--muted-foreground))]">
+        {parts.map((p) => (
+          <span key={p.label} className="inline-flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full" style={{ background: p.color }} />
+            {p.label} {p.tokens.toLocaleString()}
+          </span>
+        ))}
+        <span className={cn("ml-auto", used > contextSize && "font-semibold text-[hsl(0_75%_55%)]")}>
+          {used.toLocaleString()} / {contextSize.toLocaleString()} tokens
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function ThinkingPanel({ reasoning, live }: { reasoning?: string; live?: boolean }) {
+  if (!reasoning) return null;
+  return (
+    <details className="rounded-xl border border-dashed border-[hsl(var(--border))] px-3 py-2 text-xs text-[hsl(var(--muted-foreground))]">
+      <summary className="clickable flex cursor-pointer items-center gap-1 select-none">
+        <Brain className="h-3 w-3" /> {live ? "Model thinking…" : "Model thinking"}
+      </summary>
+      <div className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap">{reasoning}</div>
+    </details>
+  );
+}
+
 function runTests() {
   const c0 = normalizeCharacter({ name: "A", personalities: undefined, introMessages: undefined });
   if (!c0) throw new Error("normalizeCharacter should return a character");
@@ -841,9 +3461,466 @@ function runTests() {
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   });
-  if (!t.includes("# A")) throw new Error("TXT export header missing");
-  if (!t.includes("Personality: Brave")) throw new Error("TXT export personality missing");
-  if (!t.includes("* Intro 2:")) throw new Error("TXT export selected intro marker missing");
+  if (!t.includes("<name>A</name>")) throw new Error("TXT export name missing");
+  if (!t.includes("<personality>Brave</personality>")) throw new Error("TXT export personality missing");
+  if (!t.includes("<backstory>Born in the rain</backstory>")) throw new Error("TXT export selected backstory missing");
+
+  const loreEntry = { ...createDefaultLoreEntry("Harbor", "location"), content: "Docks.", keysRaw: "harbor, docks" };
+  if (!isLoreEntryTriggered(loreEntry, "We sail to the Harbor.")) throw new Error("lore scan should match primary key");
+  if (isLoreEntryTriggered(loreEntry, "Harborside inn")) throw new Error("lore scan should respect whole words");
+  if (isLoreEntryTriggered({ ...loreEntry, caseSensitive: true }, "the HARBOR")) throw new Error("lore scan should respect case");
+  const selectiveEntry = { ...loreEntry, selective: true, keysecondaryRaw: "night" };
+  if (isLoreEntryTriggered(selectiveEntry, "the harbor")) throw new Error("lore scan should require a secondary key");
+  if (!isLoreEntryTriggered(selectiveEntry, "the harbor at night")) throw new Error("lore scan should accept secondary key");
+  if (isLoreEntryTriggered({ ...loreEntry, minMessages: 3 }, "harbor", { messageCount: 2 })) throw new Error("lore scan should respect minMessages");
+  if (isLoreEntryTriggered({ ...loreEntry, probability: 40 }, "harbor", { random: () => 0.5 })) throw new Error("lore scan should roll probability");
+  if (!isLoreEntryTriggered({ ...loreEntry, activationSetting: "always_active" }, "")) throw new Error("always-active entries should be constant");
+
+  const loreBook: Lorebook = {
+    id: "b1",
+    name: "Book",
+    description: "",
+    author: "",
+    metaTagsRaw: "",
+    coverImageDataUrl: "",
+    worldEntry: { ...createDefaultLoreEntry("World", "world"), activationSetting: "any_key", keysRaw: "nowhere" },
+    locationEntries: [loreEntry, { ...createDefaultLoreEntry("Lighthouse", "location"), content: "Tall.", keysRaw: "lighthouse", priority: 5 }],
+    rulesEntries: [{ ...createDefaultLoreEntry("Tides", "rule"), content: "The docks flood.", keysRaw: "tides" }],
+    itemEntries: [],
+    specialsEntries: [],
+    factions: [],
+    createdAt: "",
+    updatedAt: "",
+  };
+  const flat = scanLorebooks([loreBook], "tides rising");
+  if (flat.length !== 1) throw new Error("lore scan should not recurse unless enabled");
+  const recursive = scanLorebooks([loreBook], "tides rising", { recursive: true });
+  if (!recursive.some((c) => c.entry.name === "Harbor")) throw new Error("recursive lore scan should follow activated content");
+  const capped = scanLorebooks([loreBook], "harbor lighthouse", { maxActivations: 1 });
+  if (capped.length !== 1 || capped[0].entry.name !== "Lighthouse") throw new Error("activation cap should keep higher priority entries");
+  const budgeted = scanLorebooks([loreBook], "harbor lighthouse", { tokenBudget: 5 });
+  if (budgeted.length !== 1 || budgeted[0].entry.name !== "Lighthouse") throw new Error("token budget should drop lower priority entries");
+
+  const history: ChatMessage[] = [
+    { role: "assistant", content: "a".repeat(400) },
+    { role: "user", content: "b".repeat(40) },
+    { role: "assistant", content: "c".repeat(40) },
+  ];
+  const trimmedHistory = trimChatHistoryToBudget(history, 40);
+  if (trimmedHistory.length !== 2 || trimmedHistory[0].content[0] !== "b") throw new Error("chat history should drop the oldest messages first");
+  const plainSwipes = getChatMessageSwipes({ role: "assistant", content: "only" });
+  if (plainSwipes.pages.length !== 1 || plainSwipes.pages[0].text !== "only") throw new Error("plain replies should read as a single swipe");
+  const storyCast = [{ id: "a", name: "Ária Vell" }, { id: "b", name: "Bram" }, { id: "c", name: "Cole" }];
+  const storyTurns: ChatMessage[] = [{ role: "assistant", content: "Rain.", speakerId: "a", speakerName: "Ária Vell" }, { role: "user", content: "What now, cole?" }];
+  if (pickNextStorySpeaker(storyCast, storyTurns, "turn_order") !== "b") throw new Error("turn order should follow the last speaker");
+  if (pickNextStorySpeaker(storyCast, storyTurns, "mention") !== "c") throw new Error("name mention should pick the named cast member");
+  if (pickNextStorySpeaker(storyCast, [{ role: "user", content: "Ária, look" }], "mention") !== "a") throw new Error("first names should count as mentions");
+  if (pickNextStorySpeaker(storyCast, storyTurns, "manual", "c") !== "c" || pickNextStorySpeaker(storyCast, storyTurns, "manual") !== "b") throw new Error("manual choice should fall back to turn order");
+  if (formatStoryChatHistory(storyTurns)[0].content !== "Ária Vell: Rain.") throw new Error("group chat history should name the speaker");
+  if (stripStorySpeakerPrefix("**Bram**: Fine.", "Bram") !== "Fine.") throw new Error("speaker prefix should be stripped from replies");
+  const macroCtx: MacroContext = { char: "Ária", user: "Sam", random: () => 0.99, lorebook: (n) => (n === "Harbor" ? "# Lorebook: Harbor" : undefined) };
+  if (expandMacros("{{char}} greets {{ USER }}.", macroCtx) !== "Ária greets Sam.") throw new Error("char/user macros should expand case-insensitively");
+  if (expandMacros("{{random:a, b ,c}}|{{random::x::y}}", macroCtx) !== "c|y") throw new Error("random macro should pick from its options");
+  if (expandMacros("{{random:{{char}},{{user}}}}", macroCtx) !== "Sam") throw new Error("nested macros should expand inside out");
+  if (expandMacros("{{roll:d20}} {{roll:2d6+1}} {{roll:6}} {{roll:x}}", macroCtx) !== "20 13 6 {{roll:x}}") throw new Error("roll macro should parse dice specs");
+  if (expandMacros("{{lorebook:Harbor}} {{lorebook:Nowhere}} {{unknown}}", macroCtx) !== "# Lorebook: Harbor {{lorebook:Nowhere}} {{unknown}}") throw new Error("lorebook and unknown macros");
+  if (expandMacros("{{char}}", {}) !== "{{char}}" || /\{\{/.test(expandMacros("{{time}} {{date}}", macroCtx))) throw new Error("time/date should expand and missing names should stay");
+  const seededA = createSeededRandom("seed");
+  const seededB = createSeededRandom("seed");
+  if (seededA() !== seededB()) throw new Error("seeded random should be deterministic");
+  if (getChatSummaryCutoff(history, 0, 1000) !== 0) throw new Error("history that fits should not be summarized");
+  if (getChatSummaryCutoff(history, 0, 40) !== 2) throw new Error("overflowing history should be folded into the summary");
+  const persona = normalizePersona({ name: "  Sam ", description: "A quiet  sailor." });
+  if (!persona || getPersonaName(persona) !== "Sam" || getPersonaName(null) !== "User") throw new Error("persona name should fall back to User");
+  if (describePersona(persona) !== "User persona: Sam - A quiet sailor." || normalizePersona("x") !== null) throw new Error("persona description/normalize");
+  const profile = normalizeConnectionProfile({ name: " ", model: "m", maxTokens: "-5", temperature: 0, streamingEnabled: false });
+  if (!profile || profile.name !== "Default" || profile.maxTokens !== DEFAULT_PROXY.maxTokens || profile.temperature !== 0 || profile.streamingEnabled) {
+    throw new Error("connection profiles should fall back to defaults for invalid fields");
+  }
+  const providerRequest: ProviderRequest = {
+    model: "m",
+    messages: [{ role: "system", content: "sys" }, { role: "assistant", content: "Hi" }, { role: "user", content: "a" }, { role: "user", content: "b" }],
+    temperature: 1.4,
+    maxTokens: 64,
+    contextSize: 4096,
+    stream: true,
+  };
+  const anthropicBody = PROVIDER_ADAPTERS.anthropic.body(providerRequest) as any;
+  if (anthropicBody.system !== "sys" || anthropicBody.temperature !== 1 || anthropicBody.messages.length !== 3 || anthropicBody.messages[0].role !== "user" || anthropicBody.messages[2].content !== "a\n\nb") {
+    throw new Error("anthropic body should lift the system prompt and alternate roles");
+  }
+  if (PROVIDER_ADAPTERS.anthropic.parseStreamLine('data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hey"}}')?.text !== "Hey") throw new Error("anthropic text delta");
+  if (PROVIDER_ADAPTERS.anthropic.parseStreamLine('data: {"type":"message_delta","delta":{"stop_reason":"max_tokens"}}')?.finishReason !== "length") throw new Error("anthropic stop reason mapping");
+  if (PROVIDER_ADAPTERS.anthropic.parseStreamLine("event: ping") !== null) throw new Error("anthropic event lines carry no text");
+  const ollamaBody = PROVIDER_ADAPTERS.ollama.body(providerRequest) as any;
+  if (ollamaBody.options.num_ctx !== 4096 || ollamaBody.options.num_predict !== 64 || ollamaBody.messages[0].role !== "system") throw new Error("ollama body options");
+  const ollamaDone = PROVIDER_ADAPTERS.ollama.parseStreamLine('{"message":{"content":"!"},"done":true,"done_reason":"length"}');
+  if (ollamaDone?.text !== "!" || ollamaDone.finishReason !== "length") throw new Error("ollama NDJSON line");
+  const openAiLine = PROVIDER_ADAPTERS.openai.parseStreamLine('data: {"choices":[{"delta":{"content":"x"},"finish_reason":"LENGTH"}]}');
+  if (openAiLine?.text !== "x" || openAiLine.finishReason !== "length" || PROVIDER_ADAPTERS.openai.parseStreamLine("data: [DONE]") !== null) throw new Error("openai SSE line");
+  if (PROVIDER_ADAPTERS.openai.parseStreamLine('data: {"choices":[{"delta":{"reasoning_content":"hmm"}}]}')?.reasoning !== "hmm") throw new Error("openai reasoning_content");
+  if (PROVIDER_ADAPTERS.anthropic.parseStreamLine('data: {"type":"content_block_delta","delta":{"type":"thinking_delta","thinking":"hm"}}')?.reasoning !== "hm") throw new Error("anthropic thinking delta");
+  if (PROVIDER_ADAPTERS.ollama.parseResponse({ message: { content: "a", thinking: "t" } }).reasoning !== "t") throw new Error("ollama thinking");
+  if (classifyProviderError(401, '{"error":{"message":"Invalid API key"}}', { label: "P" }).kind !== "auth") throw new Error("401 should be an auth error");
+  if (classifyProviderError(400, '{"error":{"message":"This model\'s maximum context length is 8192 tokens"}}', { label: "P" }).kind !== "context") throw new Error("context overflow should be recognised");
+  if (classifyProviderError(404, "", { label: "P", model: "x" }).kind !== "model" || classifyProviderError(503, "", { label: "P" }).kind !== "server") throw new Error("404 and 5xx errors");
+  const limited = classifyProviderError(429, "slow down", { label: "P", retryAfterMs: parseRetryAfter("7") });
+  if (limited.kind !== "rate_limit" || limited.retryAfterMs !== 7000 || !isRetryableProviderError(limited) || getRetryDelay(0, limited.retryAfterMs) !== 7000) throw new Error("rate limits should retry after Retry-After");
+  if (parseRetryAfter(new Date(Date.UTC(2024, 0, 1, 0, 0, 5)).toUTCString(), Date.UTC(2024, 0, 1)) !== 5000 || getRetryDelay(2) !== 4000) throw new Error("Retry-After dates and backoff");
+  if (PROVIDER_ADAPTERS.openai.modelsUrl("https://h/v1/chat/completions") !== "https://h/v1/models" || PROVIDER_ADAPTERS.ollama.modelsUrl("http://h:11434/api/chat") !== "http://h:11434/api/tags" || PROVIDER_ADAPTERS.anthropic.modelsUrl("https://h/v1/messages?x=1") !== "https://h/v1/models?x=1") {
+    throw new Error("models URLs should be derived from the chat URL");
+  }
+  const mergedRecords = mergeRecordsById(
+    [{ id: "a", updatedAt: "2024-02-01", v: "idb" }],
+    [{ id: "a", updatedAt: "2024-01-01", v: "local" }, { id: "b", updatedAt: "2024-01-01" }, { name: "no id" }, null]
+  );
+  if (mergedRecords.length !== 3 || mergedRecords[0].v !== "idb" || typeof mergedRecords[2].id !== "string") throw new Error("mergeRecordsById should keep the newer copy and give ids");
+
+  // One fixture per historic schema version of each collection.
+  const charV0 = migrateRecord("characters", { id: "c", name: "Ann", introMessage: "  Hi  there ", personality: ["Calm"] });
+  if (charV0.schemaVersion !== 2 || charV0.introMessages[0] !== "Hi there" || "introMessage" in charV0 || charV0.personalities[0] !== "Calm" || "personality" in charV0) {
+    throw new Error("v0 characters should migrate intro message and personality");
+  }
+  const charV1 = migrateRecord("characters", { id: "c", name: "Ann", schemaVersion: 1, introMessages: ["A", "B"], selectedIntroIndex: 1, personality: "Shy" });
+  if (charV1.selectedIntroIndex !== 1 || charV1.personalities[0] !== "Shy" || normalizeCharacter(charV1)?.personalities[0] !== "Shy") throw new Error("v1 characters should only move personality");
+  const charV2 = { id: "c", name: "Ann", schemaVersion: 2, introMessage: "kept" };
+  if (migrateRecord("characters", charV2) !== charV2) throw new Error("current characters should be left untouched");
+  const cardV0 = migrateRecord("character_cards", { id: "k", name: "Card" });
+  if (cardV0.schemaVersion !== 1 || cardV0.firstMessageMessages[0] !== "" || cardV0.selectedFirstMessageIndex !== 0) throw new Error("v0 cards should gain a first-message list");
+  const storyV0 = migrateRecord("stories", { id: "s", title: "T", firstMessage: "Once upon a time" });
+  if (storyV0.schemaVersion !== 1 || storyV0.firstMessageVersions[0] !== "Once upon a time") throw new Error("v0 stories should gain first-message versions");
+  const bookV0 = migrateRecord("lorebooks", { id: "l", name: "World", world: "A flat world", powers: [{ name: "Flight", content: "Wings" }] });
+  if (bookV0.schemaVersion !== 3 || bookV0.worldEntry.content !== "A flat world" || "world" in bookV0 || bookV0.specialsEntries[0].name !== "Flight" || "powers" in bookV0) {
+    throw new Error("v0 lorebooks should migrate world text and powers");
+  }
+  const bookV1 = migrateRecord("lorebooks", { id: "l", schemaVersion: 1, worldEntry: { name: "W", content: "x" }, specialsEntries: [], powers: [{ name: "Old" }] });
+  const bookV2 = migrateRecord("lorebooks", { id: "l", schemaVersion: 2, worldEntry: { name: "World Overview", content: "x", keysRaw: "", activationSetting: "any_key" } });
+  const bookV2Keyed = migrateRecord("lorebooks", { id: "l", schemaVersion: 2, worldEntry: { name: "World Overview", keysRaw: "empire", activationSetting: "any_key" } });
+  if (bookV2.worldEntry.activationSetting !== "always_active" || bookV2Keyed.worldEntry.activationSetting !== "any_key" || !isLoreEntryConstant(normalizeLorebook(bookV0)!.worldEntry)) {
+    throw new Error("keyless world entries should migrate to always active");
+  }
+  if (bookV1.worldEntry.content !== "x" || bookV1.specialsEntries.length !== 0) throw new Error("v1 lorebooks should keep existing specials");
+  const sessionV0 = migrateRecord("chat_sessions", { id: "x", storyId: "s", characterName: "Ann", messages: [] });
+  if (sessionV0.schemaVersion !== 1 || sessionV0.turnMode !== "turn_order" || migrateRecord("chat_sessions", { id: "y", characterId: "c" }).turnMode !== undefined) {
+    throw new Error("v0 story sessions should store the turn order mode");
+  }
+  const archiveFiles = new Map<string, string>();
+  const withRefs = extractArchiveImages({ a: "data:image/png;base64,AAAA", b: ["data:image/png;base64,AAAA", "data:image/jpeg;base64,BBBB", "text"] }, archiveFiles) as any;
+  if (archiveFiles.size !== 2 || withRefs.a !== withRefs.b[0] || withRefs.b[1] !== `${ARCHIVE_IMAGE_REF_PREFIX}images/0002.jpg` || withRefs.b[2] !== "text") {
+    throw new Error("extractArchiveImages should move each distinct image into one file");
+  }
+  const images = new Map(Array.from(archiveFiles, ([dataUrl, path]) => [path, dataUrl]));
+  if ((restoreArchiveImages(withRefs, images) as any).b[1] !== "data:image/jpeg;base64,BBBB") throw new Error("restoreArchiveImages should put the data URLs back");
+  const zip = createZipArchive([{ name: "a.txt", data: new TextEncoder().encode("hi") }], new Date(2024, 0, 2, 3, 4, 6));
+  const zipView = new DataView(zip.buffer);
+  if (zip.length !== 30 + 5 + 2 + 46 + 5 + 22 || zipView.getUint32(0, true) !== 0x04034b50 || zipView.getUint32(14, true) !== crc32(new TextEncoder().encode("hi")) || zipView.getUint32(zip.length - 6, true) !== 37) {
+    throw new Error("createZipArchive should write stored entries with a central directory");
+  }
+  const mergedWorkspace = mergeWorkspaceRecords(
+    "stories",
+    [{ id: "a", updatedAt: "2024-02-01", title: "Mine" }, { id: "b", updatedAt: "2024-01-01", title: "Same" }],
+    [{ id: "a", updatedAt: "2024-01-01", title: "Old" }, { id: "b", updatedAt: "2024-01-01", title: "Same" }, { id: "c", updatedAt: "2024-03-01", title: "New" }],
+    "merge"
+  );
+  if (mergedWorkspace.records.length !== 3 || mergedWorkspace.conflicts.length !== 1 || mergedWorkspace.conflicts[0].kept !== "current" || mergedWorkspace.records.find((r) => r.id === "a")?.title !== "Mine") {
+    throw new Error("merge restore should keep the newer copy and report the conflict");
+  }
+  const reorderedWorkspace = mergeWorkspaceRecords(
+    "stories",
+    [{ id: "a", updatedAt: "2024-01-01", title: "Same", tags: ["x"], note: undefined }],
+    [{ updatedAt: "2024-01-01", tags: ["x"], title: "Same", id: "a" }],
+    "merge"
+  );
+  if (reorderedWorkspace.conflicts.length) throw new Error("merge restore should not report records that differ only in key order");
+  // Restoring a newer copy of the open card, then editing it: the editor reloads from the archive copy, so the
+  // autosave after the edit keeps the restored fields.
+  const openCard = { id: "card", updatedAt: "2024-01-01", systemRules: "Old rules", firstMessageMessages: ["Hi"] };
+  const restoredCards = mergeWorkspaceRecords("character cards", [openCard], [{ ...openCard, updatedAt: "2024-02-01", systemRules: "New rules", firstMessageMessages: ["Hello"] }], "merge").records;
+  const reloadedCard = getReplacedOpenRecord([openCard], restoredCards, openCard.id);
+  if (!reloadedCard || reloadedCard.systemRules !== "New rules") throw new Error("a newer archive copy of the open card should be reloaded");
+  const editedCard = { ...restoredCards[0], systemRules: `${reloadedCard.systemRules} Edited.`, firstMessageMessages: reloadedCard.firstMessageMessages };
+  if (editedCard.firstMessageMessages[0] !== "Hello" || editedCard.systemRules !== "New rules Edited.") throw new Error("editing after a restore should keep the restored card");
+  if (getReplacedOpenRecord([openCard], mergeWorkspaceRecords("character cards", [openCard], [{ ...openCard, updatedAt: "2023-01-01", systemRules: "Older" }], "merge").records, openCard.id)) {
+    throw new Error("an open record that kept its current copy should not be reloaded");
+  }
+  const replacedWorkspace = mergeWorkspaceRecords("stories", [{ id: "a", updatedAt: "2024-02-01", title: "Mine" }, { id: "x", updatedAt: "2024-01-01" }], [{ id: "a", updatedAt: "2024-01-01", title: "Old" }], "replace");
+  if (replacedWorkspace.records.length !== 1 || replacedWorkspace.records[0].title !== "Old" || replacedWorkspace.conflicts[0].kept !== "archive") {
+    throw new Error("replace restore should take the archive copy");
+  }
+  const historyBase: HistorySnapshot = { characters: [c0], stories: [], lorebooks: [], characterCards: [] };
+  if (getHistoryChangeKey(historyBase, { ...historyBase, characters: [...historyBase.characters] }) !== "") throw new Error("reordering alone should not be an undo step");
+  if (getHistoryChangeKey(historyBase, { ...historyBase, characters: [{ ...c0 }] }) !== `characters:${c0.id}`) throw new Error("an edited record should be named in the change key");
+  if (getHistoryChangeKey(historyBase, { ...historyBase, characters: [] }) !== `characters:-${c0.id}`) throw new Error("a removed record should be marked in the change key");
+  const historyTrashIds = getHistoryTrashIds({ ...historyBase, lorebooks: [{ ...loreBook, factions: [{ id: "f", name: "F", imageDataUrl: "", factionType: "passive", factionSize: "small", details: "", entry: createDefaultLoreEntry("F", "faction"), createdAt: "" }] }] });
+  if ([...historyTrashIds].join() !== `${c0.id},b1,b1:f`) throw new Error("history trash ids should use the trash ids of records and factions");
+  const trashStory = {
+    id: "st",
+    characterIds: [c0.id, "other"],
+    boardNodes: [{ characterId: c0.id, x: 1, y: 2 }],
+    relationships: [{ id: "r", fromCharacterId: c0.id, toCharacterId: "other" }],
+    assignedLorebookIds: ["lb"],
+    updatedAt: "",
+  } as unknown as StoryProject;
+  const trashCard = { id: "cd", characterIds: [c0.id], relationshipStoryId: "st", updatedAt: "" } as unknown as CharacterCard;
+  const trashData: TrashReferenceData = { characters: [{ ...c0, assignedLorebookIds: ["lb"] }], stories: [trashStory], characterCards: [trashCard], personas: [] };
+  const detached = detachTrashReferences("character", c0.id, trashData);
+  if (detached.refs.cardIds[0] !== "cd" || detached.data.stories[0].characterIds.join() !== "other" || detached.data.stories[0].relationships.length || detached.refs.boardNodes.length !== 1) {
+    throw new Error("detachTrashReferences should strip a character from cards and stories");
+  }
+  const reattached = reattachTrashReferences("character", c0.id, detached.refs, detached.data);
+  if (!reattached.characterCards[0].characterIds.includes(c0.id) || reattached.stories[0].relationships.length !== 1 || reattached.stories[0].boardNodes[0].x !== 1) {
+    throw new Error("reattachTrashReferences should restore card and story references");
+  }
+  const detachedBook = detachTrashReferences("lorebook", "lb", trashData);
+  if (detachedBook.refs.characterIds.length !== 1 || detachedBook.refs.storyIds[0] !== "st" || detachedBook.data.characterCards !== trashData.characterCards) {
+    throw new Error("detachTrashReferences should strip lorebook assignments only");
+  }
+  const trashItems = [
+    { id: "old", deletedAt: "2024-01-01T00:00:00.000Z" },
+    { id: "new", deletedAt: "2024-01-30T00:00:00.000Z" },
+  ] as TrashItem[];
+  if (getExpiredTrashIds(trashItems, 7, Date.parse("2024-02-01T00:00:00.000Z")).join() !== "old" || getExpiredTrashIds(trashItems, 0).length) {
+    throw new Error("getExpiredTrashIds should honour the retention period");
+  }
+  if (normalizeTrashItem({ id: "f", kind: "faction", record: { id: "f" }, deletedAt: "x" }) || normalizeTrashItem({ id: "x", kind: "character", record: c0, deletedAt: "x" })?.refs.cardIds.length !== 0) {
+    throw new Error("normalizeTrashItem should require a lorebook for factions and fill refs");
+  }
+  for (const store of IDB_STORES) {
+    const versions = SCHEMA_MIGRATIONS[store.name].map((m) => m.version);
+    if (versions.some((v, i) => v !== i + 1)) throw new Error(`${store.name} migrations should be numbered 1..n in order`);
+  }
+  const loggedRequest: RequestLogEntry = {
+    id: "r1",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    task: "chat",
+    profileName: "Default",
+    provider: "openai",
+    url: "https://example.test/v1/chat/completions",
+    model: "m",
+    hasApiKey: true,
+    messages: [{ role: "user", content: "it's" }],
+    params: { temperature: 1, maxTokens: 10, contextSize: 100, stream: false },
+    loreEntries: [],
+    status: "done",
+    response: "ok",
+    continuations: 0,
+    latencyMs: 5,
+  };
+  const curl = formatRequestAsCurl(loggedRequest);
+  if (!curl.startsWith("curl 'https://example.test/v1/chat/completions' \\\n") || !curl.includes(`Bearer ${API_KEY_PLACEHOLDER}`) || !curl.includes(`"content":"it'\\''s"`)) {
+    throw new Error("curl export should quote the body and redact the key");
+  }
+  if ((getRequestLogPayload({ ...loggedRequest, provider: "ollama", hasApiKey: false }).headers as any).Authorization) throw new Error("keyless requests should not send a placeholder key");
+  const thought = splitThinking("<think>plan it</think>\n\nThe answer.");
+  if (thought.text !== "The answer." || thought.reasoning !== "plan it") throw new Error("splitThinking should strip think blocks");
+  if (splitThinking("A <think>still going").text !== "A " || splitThinking("A <think>still going").reasoning !== "still going") throw new Error("splitThinking should hold an unclosed think block");
+  if (splitThinking("no opener</think>Answer").text !== "Answer" || splitThinking("plain").reasoning !== "") throw new Error("splitThinking should handle a bare closing tag");
+  if ("num_ctx" in (PROVIDER_ADAPTERS.openai.body(providerRequest) as any) || !isProxyProvider("ollama") || isProxyProvider("toString")) throw new Error("provider guards");
+  if (!withChatSummary("sys", "They met.").endsWith("Summary of earlier events:\nThey met.") || withChatSummary("sys", " ") !== "sys") throw new Error("summary should be appended to the system prompt");
+
+  const tunedEntry: LorebookEntry = {
+    ...loreEntry,
+    keysecondaryRaw: "night, fog",
+    activationSetting: "selective",
+    selective: true,
+    caseSensitive: true,
+    matchWholeWords: false,
+    keyMatchMode: "exact",
+    priority: 7,
+    probability: 60,
+    minMessages: 2,
+    order: 42,
+    position: 3,
+    insertionOrder: 9,
+  };
+  const reimported = lorebookFromWorldInfo(lorebookToWorldInfo({
+    ...loreBook,
+    locationEntries: [tunedEntry],
+    factions: [{ id: "f1", name: "Guild", imageDataUrl: "", factionType: "hostile", factionSize: "large", details: "Smugglers.", entry: createDefaultLoreEntry("Guild", "faction"), createdAt: "" }],
+  }));
+  if (!reimported) throw new Error("world info import should accept our export");
+  if (!(lorebookToWorldInfo(loreBook).meta.totalTokens > 0)) throw new Error("world info export should count tokens");
+  if (estimateTokensByPieces("Hello world, this is a test.") !== 8 || estimateTokens("") !== 0) throw new Error("estimateTokens should count BPE-style pieces");
+  if (estimateTokensByPieces("東京タワー") !== 5 || estimateTokensByPieces("internationalization") <= estimateTokensByPieces("nation")) throw new Error("estimateTokens should charge CJK and long words more");
+  const back = reimported.locationEntries[0];
+  const fields: Array<keyof LorebookEntry> = ["keysRaw", "keysecondaryRaw", "activationSetting", "selective", "caseSensitive", "matchWholeWords", "keyMatchMode", "priority", "probability", "minMessages", "order", "position", "insertionOrder"];
+  for (const f of fields) {
+    if (back?.[f] !== tunedEntry[f]) throw new Error(`world info round trip should keep ${f}`);
+  }
+  if (reimported.rulesEntries.length !== 1 || reimported.worldEntry.name !== "World") throw new Error("world info import should sort by category");
+  if (reimported.factions[0]?.factionType !== "hostile" || reimported.factions[0]?.details !== "Smugglers.") throw new Error("world info import should rebuild factions");
+  const stBook = lorebookFromWorldInfo({ entries: { "0": { uid: 0, key: ["moon"], keysecondary: [], comment: "Moon", content: "Pale.", constant: true, selective: true, order: 100 } } });
+  if (stBook?.rulesEntries[0]?.name !== "Moon" || stBook.rulesEntries[0].activationSetting !== "always_active") throw new Error("SillyTavern entries should import");
+  const nullBook = lorebookFromWorldInfo({ entries: { "0": { uid: 0, key: ["sun"], comment: "Sun", content: "Bright.", probability: null, useProbability: true, order: null, priority: "", position: null } } });
+  const nullEntry = nullBook?.rulesEntries[0];
+  if (nullEntry?.probability !== 100 || nullEntry.order !== 100 || nullEntry.priority !== 1 || nullEntry.position !== createDefaultLoreEntry().position) throw new Error("null or blank numeric fields should import as defaults");
+
+  const cardV2 = characterToCardV2({ ...c0, name: "Ária", introMessages: ["Hello", "Hi"], selectedIntroIndex: 1 }, [loreBook]);
+  if (cardV2.data.first_mes !== "Hi" || cardV2.data.alternate_greetings[0] !== "Hello") throw new Error("card export should map intros");
+  if (!cardV2.data.character_book?.entries.some((e) => e.name === "Harbor")) throw new Error("card export should embed assigned lorebooks");
+  const blankPng = writePngChunks([{ type: "IHDR", data: new Uint8Array(13) }, { type: "IEND", data: new Uint8Array(0) }]);
+  const cardPngChunks = readPngChunks(embedCharacterCardInPng(embedCharacterCardInPng(blankPng, { chara: cardV2 }), { chara: cardV2 }));
+  if (cardPngChunks.map((ch) => ch.type).join(",") !== "IHDR,tEXt,IEND") throw new Error("card PNG should hold a single chara chunk before IEND");
+  const charaText = String.fromCharCode(...cardPngChunks[1].data.subarray(6));
+  if (JSON.parse(new TextDecoder().decode(base64ToBytes(charaText))).data.name !== "Ária") throw new Error("card PNG chunk should decode");
+
+  const cardPng = embedCharacterCardInPng(blankPng, { chara: cardV2, ccv3: { spec: "chara_card_v3", data: { ...cardV2.data, name: "V3" } } });
+  if (extractCharacterCardFromPng(cardPng)?.data?.name !== "V3") throw new Error("card PNG import should prefer ccv3");
+  if (readPngChunks(stripCharacterCardFromPng(cardPng)).length !== 2) throw new Error("card PNG import should strip card chunks");
+  const importedCard = characterFromTavernCard(characterToCardV2(
+    { ...c0, name: "Ária", gender: "Female", age: 31, race: "Elf", personalities: ["Brave", "Wry"], backstory: ["Line one.\nLine two."], systemRules: "No OOC", selectedSystemRuleIds: ["story-forward"], introMessages: ["Hello", "Hi"] },
+    [loreBook]
+  ));
+  if (!importedCard) throw new Error("tavern card import should accept our export");
+  const ic = importedCard.character;
+  if (ic.gender !== "Female" || ic.age !== 31 || ic.race !== "Elf" || ic.personalities.join("|") !== "Brave|Wry") throw new Error("tavern card import should map description fields");
+  if (ic.backstory[0] !== "Line one.\nLine two." || ic.introMessages.length !== 2) throw new Error("tavern card import should keep backstory and greetings");
+  if (ic.systemRules !== "No OOC" || ic.selectedSystemRuleIds.join() !== "story-forward") throw new Error("tavern card import should map system prompt");
+  if (importedCard.lorebooks[0]?.name !== "Book" || importedCard.lorebooks[0].locationEntries.length !== 2) throw new Error("tavern card import should rebuild lorebooks");
+  const v1 = characterFromTavernCard({ name: "Bo", description: "A quiet smith.", personality: "stoic", scenario: "A forge.", first_mes: "Hm.", mes_example: "<START>" });
+  if (v1?.character.backstory[0] !== "A quiet smith." || v1.character.synopsis !== "A forge.") throw new Error("V1 tavern cards should import");
+}
+
+// Checks that need to await: the BPE tokenizer, and provider calls against a scripted fetch. Streamed bodies
+// arrive in 7-byte chunks, which splits lines and multi-byte characters across reads.
+async function runAsyncTests() {
+  if (!(await loadBpeTokenizer())) throw new Error("the BPE tokenizer should load");
+  if (estimateTokens("Hello world, this is a test.") !== 8 || estimateTokens("<|endoftext|>") <= 1) throw new Error("estimateTokens should count cl100k_base tokens once loaded");
+
+  const encoder = new TextEncoder();
+  const streamOf = (body: string) => {
+    const bytes = encoder.encode(body);
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 7) controller.enqueue(bytes.slice(i, i + 7));
+        controller.close();
+      },
+    });
+  };
+  const mockFetch = (responses: (() => Response)[]) => {
+    const bodies: any[] = [];
+    const fetchImpl = (async (_url: string, init?: RequestInit) => {
+      bodies.push(safeParseJSON(String(init?.body ?? "")));
+      return responses[Math.min(bodies.length, responses.length) - 1]();
+    }) as typeof fetch;
+    return { fetchImpl, bodies };
+  };
+  const sse = (events: unknown[]) => events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("");
+  const request: ProviderRequest = {
+    model: "m",
+    messages: [{ role: "system", content: "Be brief." }, { role: "user", content: "Hi" }],
+    temperature: 0.7,
+    maxTokens: 50,
+    contextSize: 4096,
+    stream: true,
+  };
+  const call = (provider: ProxyProvider, fetchImpl: typeof fetch, stream = true, onText?: (text: string) => void) =>
+    requestProviderCompletion(provider, { url: "http://mock/chat", apiKey: "k", request: { ...request, stream }, fetchImpl, onText });
+
+  const openaiStream = mockFetch([
+    () =>
+      new Response(
+        streamOf(
+          sse([
+            { choices: [{ delta: { reasoning_content: "Think" } }] },
+            { choices: [{ delta: { content: "Hel" } }] },
+            { choices: [{ delta: { content: "lo wörld" }, finish_reason: "stop" }] },
+          ]) + "data: [DONE]\n\n"
+        )
+      ),
+  ]);
+  const seen: string[] = [];
+  const openai = await call("openai", openaiStream.fetchImpl, true, (text) => seen.push(text));
+  if (openai.text !== "Hello wörld" || openai.reasoning !== "Think" || openai.finishReason !== "stop") throw new Error("OpenAI streams should be reassembled across chunks");
+  if (seen.join("|") !== "Hel|Hello wörld" || openaiStream.bodies[0]?.stream !== true) throw new Error("OpenAI streams should report text as it accumulates");
+
+  const anthropicStream = mockFetch([
+    () =>
+      new Response(
+        streamOf(
+          "event: message_start\n" +
+            sse([
+              { type: "message_start" },
+              { type: "content_block_delta", delta: { type: "thinking_delta", thinking: "Hm" } },
+              { type: "content_block_delta", delta: { type: "text_delta", text: "Hi " } },
+              { type: "content_block_delta", delta: { type: "text_delta", text: "there" } },
+              { type: "message_delta", delta: { stop_reason: "max_tokens" } },
+            ])
+        )
+      ),
+  ]);
+  const anthropic = await call("anthropic", anthropicStream.fetchImpl);
+  if (anthropic.text !== "Hi there" || anthropic.reasoning !== "Hm" || anthropic.finishReason !== "length") throw new Error("Anthropic SSE streams should be reassembled");
+  if (anthropicStream.bodies[0]?.system !== "Be brief." || anthropicStream.bodies[0]?.messages?.[0]?.role !== "user") throw new Error("Anthropic requests should move the system prompt");
+
+  const ollamaStream = mockFetch([
+    () =>
+      new Response(
+        streamOf(
+          [
+            { message: { content: "Ol" }, done: false },
+            { message: { content: "lä", thinking: "ok" }, done: false },
+            { message: { content: "" }, done: true, done_reason: "stop" },
+          ]
+            .map((part) => JSON.stringify(part))
+            .join("\r\n")
+        )
+      ),
+  ]);
+  const ollama = await call("ollama", ollamaStream.fetchImpl);
+  if (ollama.text !== "Ollä" || ollama.reasoning !== "ok" || ollama.finishReason !== "stop") throw new Error("Ollama NDJSON should be buffered across chunks, including an unterminated last line");
+
+  const plain: { provider: ProxyProvider; data: unknown; reasoning: string }[] = [
+    { provider: "openai", data: { choices: [{ message: { content: "Plain", reasoning_content: "R" }, finish_reason: "stop" }] }, reasoning: "R" },
+    { provider: "anthropic", data: { content: [{ type: "thinking", thinking: "R" }, { type: "text", text: "Plain" }], stop_reason: "end_turn" }, reasoning: "R" },
+    { provider: "ollama", data: { message: { content: "Plain", thinking: "R" }, done_reason: "stop" }, reasoning: "R" },
+  ];
+  for (const { provider, data, reasoning } of plain) {
+    const { fetchImpl, bodies } = mockFetch([() => new Response(JSON.stringify(data))]);
+    const result = await call(provider, fetchImpl, false);
+    if (result.text !== "Plain" || result.reasoning !== reasoning || result.finishReason !== "stop" || bodies[0]?.stream !== false) {
+      throw new Error(`${provider} non-streamed replies should be parsed`);
+    }
+  }
+
+  const continued = mockFetch([
+    () => new Response(streamOf(sse([{ choices: [{ delta: { content: "Part one" }, finish_reason: "length" }] }]))),
+    () => new Response(JSON.stringify({ choices: [{ message: { content: "Part two" }, finish_reason: "stop" }] })),
+  ]);
+  const full = await completeProviderRequest("openai", "http://mock/chat", "k", request, new AbortController().signal, { fetchImpl: continued.fetchImpl });
+  const follow = continued.bodies[1];
+  if (full.text !== "Part one\nPart two" || full.continuations !== 1 || full.finishReason !== "stop" || full.warning) throw new Error("cut-off replies should be continued");
+  if (follow?.stream !== false || follow?.messages?.[2]?.content !== "Part one" || follow?.messages?.[3]?.role !== "user") throw new Error("continuations should resend the partial reply");
+  const failedContinuation = mockFetch([
+    () => new Response(streamOf(sse([{ choices: [{ delta: { content: "Part one" }, finish_reason: "length" }] }]))),
+    () => new Response('{"error":{"message":"bad request"}}', { status: 400 }),
+  ]);
+  const partial = await completeProviderRequest("openai", "http://mock/chat", "k", request, new AbortController().signal, { fetchImpl: failedContinuation.fetchImpl });
+  if (partial.text !== "Part one" || !partial.warning.includes("bad request")) throw new Error("a failed continuation should keep the text so far");
+
+  const busy = (status: number) => () => new Response("busy", { status, headers: { "Retry-After": "0" } });
+  const flaky = mockFetch([busy(503), busy(429), () => new Response("ok")]);
+  const retries: string[] = [];
+  const res = await fetchWithRetries("http://mock/chat", {}, {
+    label: "P",
+    fetchImpl: flaky.fetchImpl,
+    onRetry: (error, delayMs, attempt) => retries.push(`${error.kind}:${delayMs}:${attempt}`),
+  });
+  if ((await res.text()) !== "ok" || retries.join() !== "server:0:1,rate_limit:0:2") throw new Error("fetchWithRetries should retry after Retry-After");
+  const down = mockFetch([busy(503)]);
+  const exhausted = await fetchWithRetries("http://mock/chat", {}, { label: "P", fetchImpl: down.fetchImpl }).catch((e) => e);
+  if (!(exhausted instanceof ProviderError) || exhausted.kind !== "server" || down.bodies.length !== PROVIDER_RETRY_LIMIT + 1) throw new Error("fetchWithRetries should give up after the retry limit");
+  const denied = mockFetch([() => new Response("", { status: 401 }), () => new Response("ok")]);
+  const auth = await fetchWithRetries("http://mock/chat", {}, { label: "P", fetchImpl: denied.fetchImpl }).catch((e) => e);
+  if (auth?.kind !== "auth" || denied.bodies.length !== 1) throw new Error("auth errors should not be retried");
+  const controller = new AbortController();
+  const waiting = mockFetch([() => new Response("", { status: 429, headers: { "Retry-After": "30" } })]);
+  const aborted = await fetchWithRetries("http://mock/chat", { signal: controller.signal }, {
+    label: "P",
+    fetchImpl: waiting.fetchImpl,
+    onRetry: (_error, delayMs) => delayMs === 30000 && controller.abort(),
+  }).catch((e) => e);
+  if (aborted?.message !== "Aborted" || waiting.bodies.length !== 1) throw new Error("an abort should end the Retry-After wait");
 }
 
 export default function CharacterCreatorApp() {
@@ -854,12 +3931,37 @@ export default function CharacterCreatorApp() {
   const [characters, setCharacters] = useState<Character[]>([]);
   const [characterCards, setCharacterCards] = useState<CharacterCard[]>([]);
   const [activeCharacterCardId, setActiveCharacterCardId] = useState<string | null>(null);
+  // The card whose values the card editor currently holds; autosave waits until it matches the active card.
+  const [cardEditorCardId, setCardEditorCardId] = useState<string | null>(null);
   const [characterCardNameInput, setCharacterCardNameInput] = useState("");
   const [hydrated, setHydrated] = useState(false);
+  const [, setBpeTokenizerReady] = useState(false);
+  const [trash, setTrash] = useState<TrashItem[]>([]);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [trashRetentionDraft, setTrashRetentionDraft] = useState(String(DEFAULT_TRASH_RETENTION_DAYS));
+  const trashRetentionRef = useRef(DEFAULT_TRASH_RETENTION_DAYS);
+  const [trashNotice, setTrashNotice] = useState("");
+  const savedRecordsRef = useRef<SavedRecords>({});
+  // Undo and redo stacks hold whole snapshots; untouched records are shared, so a step costs a few arrays.
+  const historyRef = useRef<{
+    undo: HistorySnapshot[];
+    redo: HistorySnapshot[];
+    last: HistorySnapshot | null;
+    lastKey: string;
+    lastAt: number;
+    groupDepth: number;
+    groupStarted: boolean;
+    // Trash items of records that left the trash, by trash id, so undoing their return sends them back.
+    trashed: Map<string, TrashItem>;
+  }>({ undo: [], redo: [], last: null, lastKey: "", lastAt: 0, groupDepth: 0, groupStarted: false, trashed: new Map() });
+  const [historyCounts, setHistoryCounts] = useState({ undo: 0, redo: 0 });
+  const historyShortcutRef = useRef<(direction: "undo" | "redo") => void>(() => {});
   const [storageError, setStorageError] = useState<string | null>(null);
   const [selectedId, setSelectedId] = useState<string | null>(null);
 
   const [proxyOpen, setProxyOpen] = useState(false);
+  const [proxyProvider, setProxyProvider] = useState<ProxyProvider>(DEFAULT_PROXY.provider);
   const [proxyChatUrl, setProxyChatUrl] = useState(DEFAULT_PROXY.chatUrl);
   const [proxyApiKey, setProxyApiKey] = useState(DEFAULT_PROXY.apiKey);
   const [proxyModel, setProxyModel] = useState(DEFAULT_PROXY.model);
@@ -869,14 +3971,43 @@ export default function CharacterCreatorApp() {
   const [proxyContextSize, setProxyContextSize] = useState(DEFAULT_PROXY.contextSize);
   const [proxyCustomPrompt, setProxyCustomPrompt] = useState(DEFAULT_PROXY.customPrompt);
   const [proxyStreamingEnabled, setProxyStreamingEnabled] = useState(DEFAULT_PROXY.streamingEnabled);
+  const [proxyLoreTokenBudget, setProxyLoreTokenBudget] = useState(DEFAULT_PROXY.loreTokenBudget);
+  const [proxyLoreMaxActivations, setProxyLoreMaxActivations] = useState(DEFAULT_PROXY.loreMaxActivations);
+  const [proxyLoreRecursiveScanning, setProxyLoreRecursiveScanning] = useState(DEFAULT_PROXY.loreRecursiveScanning);
+  const [proxyKeepChatReasoning, setProxyKeepChatReasoning] = useState(DEFAULT_PROXY.keepChatReasoning);
+  const [requestLogLimit, setRequestLogLimit] = useState(DEFAULT_PROXY.requestLogLimit);
+  const [requestLogLimitDraft, setRequestLogLimitDraft] = useState(String(DEFAULT_PROXY.requestLogLimit));
+  // Kept for this session only: entries hold whole prompts and would quickly fill localStorage.
+  const [requestLog, setRequestLog] = useState<RequestLogEntry[]>([]);
+  const [requestLogOpen, setRequestLogOpen] = useState(false);
+  const [selectedRequestLogId, setSelectedRequestLogId] = useState<string | null>(null);
+  const [requestLogNotice, setRequestLogNotice] = useState("");
+  const [workspaceOpen, setWorkspaceOpen] = useState(false);
+  const [workspaceIncludeKeys, setWorkspaceIncludeKeys] = useState(false);
+  const [workspaceNotice, setWorkspaceNotice] = useState("");
+  const [pendingWorkspace, setPendingWorkspace] = useState<{ fileName: string; archive: WorkspaceArchive } | null>(null);
+  const [workspaceRestoreMode, setWorkspaceRestoreMode] = useState<"merge" | "replace">("merge");
+  const [workspaceConflicts, setWorkspaceConflicts] = useState<WorkspaceConflict[] | null>(null);
+  const workspaceImportRef = useRef<HTMLInputElement | null>(null);
+  const [connectionProfiles, setConnectionProfiles] = useState<ConnectionProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState("");
+  const [taskProfileIds, setTaskProfileIds] = useState<Partial<Record<ProxyTask, string>>>({});
   const [personaOpen, setPersonaOpen] = useState(false);
-  const [personaText, setPersonaText] = useState("");
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [defaultPersonaId, setDefaultPersonaId] = useState("");
+  const [editingPersonaId, setEditingPersonaId] = useState<string | null>(null);
+  const personaImageFileRef = useRef<HTMLInputElement | null>(null);
 
   const [chatCharacter, setChatCharacter] = useState<Character | null>(null);
   const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
+  const [chatStorySpeakerId, setChatStorySpeakerId] = useState("");
+  const [chatSummarizing, setChatSummarizing] = useState(false);
+  const [chatMemoryOpen, setChatMemoryOpen] = useState(false);
   const [activeChatSessionId, setActiveChatSessionId] = useState<string | null>(null);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState("");
+  const [editingChatMessageIndex, setEditingChatMessageIndex] = useState<number | null>(null);
+  const [editingChatMessageText, setEditingChatMessageText] = useState("");
 
   const [query, setQuery] = useState("");
   const [dragCharacterId, setDragCharacterId] = useState<string | null>(null);
@@ -1087,6 +4218,16 @@ export default function CharacterCreatorApp() {
   const [genLoading, setGenLoading] = useState(false);
   const [genError, setGenError] = useState<string | null>(null);
   const [proxyProgress, setProxyProgress] = useState(0);
+  const [proxyRetryStatus, setProxyRetryStatus] = useState("");
+  const [connectionTest, setConnectionTest] = useState<{ status: "idle" | "testing" | "ok" | "error"; message: string; models: string[] }>({
+    status: "idle",
+    message: "",
+    models: [],
+  });
+  const [generatingFieldKey, setGeneratingFieldKey] = useState<string | null>(null);
+  const genAbortRef = useRef<AbortController | null>(null);
+  // The page opened by startGeneratedTextPage(); the next request reports its reasoning there.
+  const genReasoningTargetRef = useRef<{ fieldKey: string; pageId: string } | null>(null);
   const [isMobile, setIsMobile] = useState(false);
 
   useEffect(() => {
@@ -1097,7 +4238,7 @@ export default function CharacterCreatorApp() {
   }, []);
 
   useEffect(() => {
-    if (page !== "characters" && page !== "create" && page !== "story_relationship_board" && page !== "lorebooks" && page !== "lorebook_create") {
+    if (page !== "characters" && page !== "create" && page !== "chat" && page !== "storywriting" && page !== "my_stories" && page !== "story_editor" && page !== "story_relationship_board" && page !== "lorebooks" && page !== "lorebook_create") {
       setPage("characters");
     }
   }, [page]);
@@ -1105,6 +4246,8 @@ export default function CharacterCreatorApp() {
 
   function startGeneratedTextPage(fieldKey: string) {
     const pageId = uid();
+    genReasoningTargetRef.current = { fieldKey, pageId };
+    setGeneratingFieldKey(fieldKey);
     setGeneratedTextStates((prev) => {
       const state = prev[fieldKey] || { pages: [], activeIndex: 0 };
       const nextPages = [...state.pages, { id: pageId, text: "", isFinal: false }];
@@ -1127,6 +4270,14 @@ export default function CharacterCreatorApp() {
     });
   }
 
+  function setGeneratedPageReasoning(fieldKey: string, pageId: string, reasoning: string) {
+    setGeneratedTextStates((prev) => {
+      const state = prev[fieldKey];
+      if (!state || !state.pages.some((p) => p.id === pageId)) return prev;
+      return { ...prev, [fieldKey]: { ...state, pages: state.pages.map((p) => (p.id === pageId ? { ...p, reasoning } : p)) } };
+    });
+  }
+
   function setGeneratedTextActivePage(fieldKey: string, activeIndex: number) {
     setGeneratedTextStates((prev) => {
       const state = prev[fieldKey];
@@ -1141,6 +4292,10 @@ export default function CharacterCreatorApp() {
     onCommit(text);
   }
 
+  function stopGeneration() {
+    genAbortRef.current?.abort();
+  }
+
   function renderGeneratedTextarea(args: {
     fieldKey: string;
     value: string;
@@ -1174,7 +4329,14 @@ export default function CharacterCreatorApp() {
             >
               <ChevronLeft className="h-4 w-4" /> Roll back
             </Button>
-            <div className="text-xs text-[hsl(var(--muted-foreground))]">Iteration {activeIndex + 1} / {pages.length}</div>
+            <div className="flex items-center gap-2 text-xs text-[hsl(var(--muted-foreground))]">
+              Iteration {activeIndex + 1} / {pages.length}
+              {genLoading && generatingFieldKey === args.fieldKey ? (
+                <Button variant="danger" type="button" onClick={stopGeneration}>
+                  <Square className="h-3 w-3" /> Stop
+                </Button>
+              ) : null}
+            </div>
             <Button
               variant="secondary"
               type="button"
@@ -1211,6 +4373,10 @@ export default function CharacterCreatorApp() {
           placeholder={args.placeholder}
           className={cn(isStreaming && "opacity-60")}
         />
+        <div className="flex justify-end">
+          <TokenCount text={effectiveValue} />
+        </div>
+        <ThinkingPanel reasoning={activePage?.reasoning} live={isStreaming} />
       </div>
     );
   }
@@ -1221,263 +4387,114 @@ export default function CharacterCreatorApp() {
   const factionImageFileRef = useRef<HTMLInputElement | null>(null);
   const sexualBehaviorImportRef = useRef<HTMLInputElement | null>(null);
   const characterCardImportRef = useRef<HTMLInputElement | null>(null);
+  const lorebookImportRef = useRef<HTMLInputElement | null>(null);
+
+  // Re-renders once the tokenizer is in, so every count switches from the estimate to real tokens.
+  useEffect(() => {
+    loadBpeTokenizer().then(setBpeTokenizerReady);
+  }, []);
 
   useEffect(() => {
-    if (import.meta.env.MODE === "test") runTests();
+    if (import.meta.env.MODE === "test") {
+      runTests();
+      // A failure surfaces as an unhandled rejection, the async counterpart of a throw from runTests.
+      void runAsyncTests();
+    }
   }, []);
 
   useEffect(() => {
     const savedTheme = localStorage.getItem(THEME_KEY);
     if (savedTheme === "light" || savedTheme === "dark") setTheme(savedTheme);
 
-    const savedProxy = safeParseJSON(localStorage.getItem(PROXY_KEY) || "");
-    if (savedProxy && typeof savedProxy === "object") {
-      if (typeof (savedProxy as any).chatUrl === "string") setProxyChatUrl((savedProxy as any).chatUrl);
-      if (typeof (savedProxy as any).apiKey === "string") setProxyApiKey((savedProxy as any).apiKey);
-      if (typeof (savedProxy as any).model === "string") setProxyModel((savedProxy as any).model);
-      const mt = Number((savedProxy as any).maxTokens);
-      if (Number.isFinite(mt) && mt > 0) setProxyMaxTokens(Math.floor(mt));
-      const temp = Number((savedProxy as any).temperature);
-      if (Number.isFinite(temp) && temp >= 0 && temp <= 2) {
-        setProxyTemperature(temp);
-        setProxyTemperatureInput(String(temp));
-      }
-      const ctx = Number((savedProxy as any).contextSize);
-      if (Number.isFinite(ctx) && ctx > 1) setProxyContextSize(Math.floor(ctx));
-      if (typeof (savedProxy as any).customPrompt === "string") setProxyCustomPrompt((savedProxy as any).customPrompt);
-      if (typeof (savedProxy as any).streamingEnabled === "boolean") setProxyStreamingEnabled((savedProxy as any).streamingEnabled);
-    }
-
-    const savedPersona = localStorage.getItem(PERSONA_KEY);
-    if (typeof savedPersona === "string") setPersonaText(savedPersona);
-
-    const savedSessions = safeParseJSON(localStorage.getItem(CHAT_SESSIONS_KEY) || "");
-    if (Array.isArray(savedSessions)) {
-      const normalized = savedSessions
-        .map((s) => {
-          if (!s || typeof s !== "object") return null;
-          const msgs = Array.isArray((s as any).messages)
-            ? (s as any).messages
-                .map((m: any) => {
-                  const role = m?.role === "assistant" ? "assistant" : m?.role === "user" ? "user" : null;
-                  const content = collapseWhitespace(m?.content ?? "");
-                  if (!role || !content) return null;
-                  return { role, content } as ChatMessage;
-                })
-                .filter(Boolean)
-            : [];
-          const id = typeof (s as any).id === "string" ? (s as any).id : uid();
-          const characterId = typeof (s as any).characterId === "string" ? (s as any).characterId : "";
-          const characterName = collapseWhitespace((s as any).characterName ?? "");
-          if (!characterId || !characterName) return null;
-          const now = new Date().toISOString();
-          return {
-            id,
-            characterId,
-            characterName,
-            characterImageDataUrl:
-              typeof (s as any).characterImageDataUrl === "string" ? (s as any).characterImageDataUrl : "",
-            messages: msgs,
-            createdAt: typeof (s as any).createdAt === "string" ? (s as any).createdAt : now,
-            updatedAt: typeof (s as any).updatedAt === "string" ? (s as any).updatedAt : now,
-          } as ChatSession;
-        })
-        .filter((x): x is ChatSession => !!x)
-        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
-      setChatSessions(normalized);
-    }
+    applyProxySettings(
+      safeParseJSON(localStorage.getItem(PROXY_KEY) || ""),
+      safeParseJSON(localStorage.getItem(PROXY_PROFILES_KEY) || "")
+    );
 
-    const savedStories = safeParseJSON(localStorage.getItem(STORIES_KEY) || "");
-    if (Array.isArray(savedStories)) {
-      const normalizedStories = savedStories
-        .map((s) => {
-          if (!s || typeof s !== "object") return null;
-          const id = typeof (s as any).id === "string" ? (s as any).id : uid();
-          const now = new Date().toISOString();
-          return {
-            id,
-            title: collapseWhitespace((s as any).title || "Untitled story"),
-            characterIds: normalizeStringArray((s as any).characterIds),
-            imageDataUrl: typeof (s as any).imageDataUrl === "string" ? (s as any).imageDataUrl : "",
-            scenario: typeof (s as any).scenario === "string" ? (s as any).scenario : "",
-            firstMessage: typeof (s as any).firstMessage === "string" ? (s as any).firstMessage : "",
-            firstMessageVersions: normalizeStringArray((s as any).firstMessageVersions).length
-              ? normalizeStringArray((s as any).firstMessageVersions)
-              : (typeof (s as any).firstMessage === "string" && collapseWhitespace((s as any).firstMessage))
-                ? [String((s as any).firstMessage)]
-                : [""],
-            selectedFirstMessageIndex: Number.isFinite(Number((s as any).selectedFirstMessageIndex))
-              ? Math.max(0, Number((s as any).selectedFirstMessageIndex))
-              : 0,
-            firstMessageStyle: (s as any).firstMessageStyle === "dramatic" || (s as any).firstMessageStyle === "melancholic" ? (s as any).firstMessageStyle : "realistic",
-            systemRules: typeof (s as any).systemRules === "string" ? (s as any).systemRules : "",
-            selectedSystemRuleIds: normalizeStringArray((s as any).selectedSystemRuleIds),
-            synopsis: typeof (s as any).synopsis === "string" ? (s as any).synopsis : "",
-            synopsisStyle: (s as any).synopsisStyle === "dramatic" || (s as any).synopsisStyle === "melancholic" ? (s as any).synopsisStyle : "realistic",
-            relationships: Array.isArray((s as any).relationships) ? (s as any).relationships : [],
-            boardNodes: Array.isArray((s as any).boardNodes) ? (s as any).boardNodes : [],
-            assignedLorebookIds: normalizeStringArray((s as any).assignedLorebookIds),
-            createdAt: typeof (s as any).createdAt === "string" ? (s as any).createdAt : now,
-            updatedAt: typeof (s as any).updatedAt === "string" ? (s as any).updatedAt : now,
-          } as StoryProject;
-        })
-        .filter((x): x is StoryProject => !!x)
-        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
-      setStories(normalizedStories);
+    const savedPersonas = safeParseJSON(localStorage.getItem(PERSONAS_KEY) || "");
+    if (Array.isArray(savedPersonas)) {
+      setPersonas(savedPersonas.map(normalizePersona).filter((p): p is Persona => !!p));
+      setDefaultPersonaId(localStorage.getItem(DEFAULT_PERSONA_KEY) || "");
+    } else {
+      const legacyText = localStorage.getItem(PERSONA_KEY) || "";
+      if (collapseWhitespace(legacyText)) {
+        const migrated = normalizePersona({ name: "User", description: legacyText });
+        if (migrated) {
+          setPersonas([migrated]);
+          setDefaultPersonaId(migrated.id);
+        }
+      }
     }
 
-    const savedLorebooks = safeParseJSON(localStorage.getItem(LOREBOOKS_KEY) || "");
-    if (Array.isArray(savedLorebooks)) {
-      const normalizedLorebooks = savedLorebooks
-        .map((book) => {
-          if (!book || typeof book !== "object") return null;
-          const id = typeof (book as any).id === "string" ? (book as any).id : uid();
-          const now = new Date().toISOString();
-
-          const normalizeEntry = (raw: any, defaultName: string, category: LorebookEntry["category"], order: number) => {
-            const base = createDefaultLoreEntry(defaultName, category, order);
-            if (!raw || typeof raw !== "object") return base;
-            const activationSetting = raw.activationSetting === "selective" || raw.activationSetting === "always_active" || raw.activationSetting === "disabled" ? raw.activationSetting : "any_key";
-            return {
-              ...base,
-              id: typeof raw.id === "string" ? raw.id : base.id,
-              name: collapseWhitespace(raw.name ?? base.name),
-              comment: typeof raw.comment === "string" ? raw.comment : base.comment,
-              content: typeof raw.content === "string" ? raw.content : base.content,
-              keysRaw: typeof raw.keysRaw === "string" ? raw.keysRaw : Array.isArray(raw.key) ? raw.key.join(", ") : base.keysRaw,
-              keysecondaryRaw: typeof raw.keysecondaryRaw === "string" ? raw.keysecondaryRaw : Array.isArray(raw.keysecondary) ? raw.keysecondary.join(", ") : base.keysecondaryRaw,
-              enabled: raw.enabled !== false && raw.disable !== true,
-              constant: !!raw.constant,
-              selective: !!raw.selective,
-              disable: !!raw.disable,
-              caseSensitive: !!raw.caseSensitive || !!raw.case_sensitive,
-              matchWholeWords: raw.matchWholeWords !== false,
-              keyMatchPriority: !!raw.keyMatchPriority,
-              priority: Number.isFinite(Number(raw.priority)) ? Number(raw.priority) : base.priority,
-              probability: Number.isFinite(Number(raw.probability)) ? Number(raw.probability) : base.probability,
-              minMessages: Number.isFinite(Number(raw.minMessages)) ? Number(raw.minMessages) : base.minMessages,
-              groupWeight: Number.isFinite(Number(raw.groupWeight)) ? Number(raw.groupWeight) : base.groupWeight,
-              insertionOrder: Number.isFinite(Number(raw.insertionOrder)) ? Number(raw.insertionOrder) : Number.isFinite(Number(raw.insertion_order)) ? Number(raw.insertion_order) : base.insertionOrder,
-              order: Number.isFinite(Number(raw.order)) ? Number(raw.order) : base.order,
-              position: Number.isFinite(Number(raw.position)) ? Number(raw.position) : base.position,
-              activationSetting,
-              keyMatchMode: raw.keyMatchMode === "exact" ? "exact" : "partial",
-              tagsRaw: typeof raw.tagsRaw === "string" ? raw.tagsRaw : base.tagsRaw,
-              category: ["world","location","faction","rule","item","special","character"].includes(raw.category) ? raw.category : category,
-            } as LorebookEntry;
-          };
-
-          const factions = Array.isArray((book as any).factions)
-            ? (book as any).factions
-                .map((f: any, idx: number) => {
-                  if (!f || typeof f !== "object") return null;
-                  const name = collapseWhitespace(f.name ?? f.entry?.name ?? "");
-                  if (!name) return null;
-                  const entry = normalizeEntry(f.entry, name, "faction", (idx + 1) * 100);
-                  if (typeof f.description === "string" && !entry.content) entry.content = f.description;
-                  return {
-                    id: typeof f.id === "string" ? f.id : uid(),
-                    name,
-                    imageDataUrl: typeof f.imageDataUrl === "string" ? f.imageDataUrl : "",
-                    factionType: f.factionType === "hostile" ? "hostile" : "passive",
-                    factionSize: ["micro", "small", "medium", "large", "massive", "colossal", "mega-faction"].includes(f.factionSize) ? f.factionSize : "small",
-                    details: typeof f.details === "string" ? f.details : entry.content,
-                    entry,
-                    createdAt: typeof f.createdAt === "string" ? f.createdAt : now,
-                  } as LorebookFaction;
-                })
-                .filter((f: LorebookFaction | null): f is LorebookFaction => !!f)
-            : [];
+    const savedRetention = Math.floor(Number(localStorage.getItem(TRASH_RETENTION_KEY) ?? ""));
+    if (localStorage.getItem(TRASH_RETENTION_KEY) !== null && Number.isFinite(savedRetention) && savedRetention >= 0) setTrashRetentionDays(savedRetention);
 
-          const worldEntry = (book as any).worldEntry
-            ? normalizeEntry((book as any).worldEntry, "World Overview", "world", 100)
-            : normalizeEntry({
-                name: "World Overview",
-                content: typeof (book as any).world === "string" ? (book as any).world : "",
-                tagsRaw: "world",
-                keysRaw: "world",
-              }, "World Overview", "world", 100);
-
-          const locationEntries = Array.isArray((book as any).locationEntries)
-            ? (book as any).locationEntries.map((entry: any, idx: number) => normalizeEntry(entry, `Location ${idx + 1}`, "location", (idx + 1) * 100))
-            : [];
+    (async () => {
+      const [charactersResult, sessionsResult, storiesResult, lorebooksResult, cardsResult, trashResult] = await Promise.all([
+        loadStoredCollection("characters", STORAGE_KEY),
+        loadStoredCollection("chat_sessions", CHAT_SESSIONS_KEY),
+        loadStoredCollection("stories", STORIES_KEY),
+        loadStoredCollection("lorebooks", LOREBOOKS_KEY),
+        loadStoredCollection("character_cards", CHARACTER_CARDS_KEY),
+        loadStoredCollection("trash"),
+      ]);
+
+      const savedSessions = sessionsResult.records;
+      if (Array.isArray(savedSessions)) {
+        const normalized = savedSessions
+          .map(normalizeChatSession)
+          .filter((x): x is ChatSession => !!x)
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        setChatSessions(normalized);
+      }
 
-          const rulesEntries = Array.isArray((book as any).rulesEntries)
-            ? (book as any).rulesEntries.map((entry: any, idx: number) => normalizeEntry(entry, `Rule ${idx + 1}`, "rule", (idx + 1) * 100))
-            : [];
+      const savedStories = storiesResult.records;
+      if (Array.isArray(savedStories)) {
+        const normalizedStories = savedStories
+          .map(normalizeStory)
+          .filter((x): x is StoryProject => !!x)
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        setStories(normalizedStories);
+      }
 
-          const itemEntries = Array.isArray((book as any).itemEntries)
-            ? (book as any).itemEntries.map((entry: any, idx: number) => normalizeEntry(entry, `Item ${idx + 1}`, "item", (idx + 1) * 100))
-            : [];
+      const savedLorebooks = lorebooksResult.records;
+      if (Array.isArray(savedLorebooks)) {
+        const normalizedLorebooks = savedLorebooks
+          .map(normalizeLorebook)
+          .filter((book: Lorebook | null): book is Lorebook => !!book)
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        setLorebooks(normalizedLorebooks);
+      }
 
-          const specialsEntries = Array.isArray((book as any).specialsEntries)
-            ? (book as any).specialsEntries.map((entry: any, idx: number) => normalizeEntry(entry, `Special ${idx + 1}`, "special", (idx + 1) * 100))
-            : Array.isArray((book as any).powers)
-              ? (book as any).powers.map((entry: any, idx: number) => normalizeEntry(entry, `Special ${idx + 1}`, "special", (idx + 1) * 100))
-              : [];
+      const savedCharacterCards = cardsResult.records;
+      if (Array.isArray(savedCharacterCards)) {
+        const normalizedCards = savedCharacterCards
+          .map(normalizeCharacterCard)
+          .filter((x): x is CharacterCard => !!x)
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        setCharacterCards(normalizedCards);
+        if (normalizedCards.length && !activeCharacterCardId) {
+          setActiveCharacterCardId(normalizedCards[0].id);
+          setCharacterCardNameInput(normalizedCards[0].name);
+        }
+      }
 
-          return {
-            id,
-            name: collapseWhitespace((book as any).name || "Untitled lorebook"),
-            description: typeof (book as any).description === "string" ? (book as any).description : "",
-            author: typeof (book as any).author === "string" ? (book as any).author : "",
-            metaTagsRaw: typeof (book as any).metaTagsRaw === "string" ? (book as any).metaTagsRaw : "",
-            coverImageDataUrl: typeof (book as any).coverImageDataUrl === "string" ? (book as any).coverImageDataUrl : "",
-            worldEntry,
-            locationEntries,
-            rulesEntries,
-            itemEntries,
-            specialsEntries,
-            factions,
-            createdAt: typeof (book as any).createdAt === "string" ? (book as any).createdAt : now,
-            updatedAt: typeof (book as any).updatedAt === "string" ? (book as any).updatedAt : now,
-          } as Lorebook;
-        })
-        .filter((book: Lorebook | null): book is Lorebook => !!book)
+      const loadedCharacters = charactersResult.records
+        .map(normalizeCharacter)
+        .filter((x): x is Character => !!x)
         .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
-      setLorebooks(normalizedLorebooks);
-    }
+      setCharacters(loadedCharacters);
 
-    const savedCharacterCards = safeParseJSON(localStorage.getItem(CHARACTER_CARDS_KEY) || "");
-    if (Array.isArray(savedCharacterCards)) {
-      const normalizedCards = savedCharacterCards
-        .map(normalizeCharacterCard)
-        .filter((x): x is CharacterCard => !!x)
-        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
-      setCharacterCards(normalizedCards);
-      if (normalizedCards.length && !activeCharacterCardId) {
-        setActiveCharacterCardId(normalizedCards[0].id);
-        setCharacterCardNameInput(normalizedCards[0].name);
-      }
-    }
+      setTrash(
+        trashResult.records
+          .map(normalizeTrashItem)
+          .filter((x): x is TrashItem => !!x)
+          .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+      );
 
-    (async () => {
-      try {
-        const fromIdb = await idbGetAllCharacters();
-        const raw = localStorage.getItem(STORAGE_KEY);
-        const fromLocal = raw && Array.isArray(safeParseJSON(raw))
-          ? (safeParseJSON(raw) as any[]).map(normalizeCharacter).filter(Boolean) as Character[]
-          : [];
-
-        const mergedById = new Map<string, Character>();
-        for (const ch of [...fromIdb, ...fromLocal]) {
-          const existing = mergedById.get(ch.id);
-          if (!existing || (ch.updatedAt || "") > (existing.updatedAt || "")) {
-            mergedById.set(ch.id, ch);
-          }
-        }
-        const merged = Array.from(mergedById.values()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
-        if (merged.length) {
-          setCharacters(merged);
-          try {
-            await idbPutManyCharacters(merged);
-          } catch {}
-        }
-        setHydrated(true);
-      } catch (e: any) {
-        setStorageError(e?.message ? String(e.message) : "Failed to load saved data.");
-        setHydrated(true);
-      }
+      const loadError = [charactersResult, sessionsResult, storiesResult, lorebooksResult, cardsResult, trashResult].find((r) => r.error)?.error;
+      if (loadError) setStorageError(`Saved data could not be read from the browser database. ${loadError}`);
+      setHydrated(true);
     })();
   }, []);
 
@@ -1525,6 +4542,7 @@ export default function CharacterCreatorApp() {
     localStorage.setItem(
       PROXY_KEY,
       JSON.stringify({
+        provider: proxyProvider,
         chatUrl: proxyChatUrl,
         apiKey: proxyApiKey,
         model: proxyModel,
@@ -1533,55 +4551,145 @@ export default function CharacterCreatorApp() {
         contextSize: proxyContextSize,
         customPrompt: proxyCustomPrompt,
         streamingEnabled: proxyStreamingEnabled,
+        loreTokenBudget: proxyLoreTokenBudget,
+        loreMaxActivations: proxyLoreMaxActivations,
+        loreRecursiveScanning: proxyLoreRecursiveScanning,
+        keepChatReasoning: proxyKeepChatReasoning,
+        requestLogLimit,
       })
     );
-  }, [proxyChatUrl, proxyApiKey, proxyModel, proxyMaxTokens, proxyTemperature, proxyContextSize, proxyCustomPrompt, proxyStreamingEnabled]);
+  }, [proxyProvider, proxyChatUrl, proxyApiKey, proxyModel, proxyMaxTokens, proxyTemperature, proxyContextSize, proxyCustomPrompt, proxyStreamingEnabled, proxyLoreTokenBudget, proxyLoreMaxActivations, proxyLoreRecursiveScanning, proxyKeepChatReasoning, requestLogLimit]);
 
   useEffect(() => {
     setProxyTemperatureInput(String(proxyTemperature));
   }, [proxyTemperature]);
 
+  // Keeps the active profile in step with the Proxy modal fields.
   useEffect(() => {
-    localStorage.setItem(PERSONA_KEY, personaText);
-  }, [personaText]);
+    setConnectionProfiles((prev) =>
+      prev.map((p) =>
+        p.id === activeProfileId
+          ? {
+              ...p,
+              provider: proxyProvider,
+              chatUrl: proxyChatUrl,
+              apiKey: proxyApiKey,
+              model: proxyModel,
+              maxTokens: proxyMaxTokens,
+              temperature: proxyTemperature,
+              contextSize: proxyContextSize,
+              streamingEnabled: proxyStreamingEnabled,
+            }
+          : p
+      )
+    );
+  }, [activeProfileId, proxyProvider, proxyChatUrl, proxyApiKey, proxyModel, proxyMaxTokens, proxyTemperature, proxyContextSize, proxyStreamingEnabled]);
 
   useEffect(() => {
-    localStorage.setItem(CHAT_SESSIONS_KEY, JSON.stringify(chatSessions));
-  }, [chatSessions]);
+    localStorage.setItem(PROXY_PROFILES_KEY, JSON.stringify({ profiles: connectionProfiles, activeProfileId, taskProfileIds }));
+  }, [connectionProfiles, activeProfileId, taskProfileIds]);
 
   useEffect(() => {
-    localStorage.setItem(STORIES_KEY, JSON.stringify(stories));
-  }, [stories]);
+    localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+  }, [personas]);
 
   useEffect(() => {
-    localStorage.setItem(LOREBOOKS_KEY, JSON.stringify(lorebooks));
-  }, [lorebooks]);
+    localStorage.setItem(DEFAULT_PERSONA_KEY, defaultPersonaId);
+  }, [defaultPersonaId]);
 
   useEffect(() => {
-    localStorage.setItem(CHARACTER_CARDS_KEY, JSON.stringify(characterCards));
-  }, [characterCards]);
+    trashRetentionRef.current = trashRetentionDays;
+    localStorage.setItem(TRASH_RETENTION_KEY, String(trashRetentionDays));
+  }, [trashRetentionDays]);
 
   useEffect(() => {
-    if (!hydrated) return;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(characters));
+    if (hydrated) persistCollectionChanges(savedRecordsRef.current, "chat_sessions", chatSessions, setStorageError);
+  }, [chatSessions, hydrated]);
+
+  useEffect(() => {
+    if (hydrated) persistCollectionChanges(savedRecordsRef.current, "stories", stories, setStorageError);
+  }, [stories, hydrated]);
+
+  useEffect(() => {
+    if (hydrated) persistCollectionChanges(savedRecordsRef.current, "lorebooks", lorebooks, setStorageError);
+  }, [lorebooks, hydrated]);
+
+  useEffect(() => {
+    if (hydrated) persistCollectionChanges(savedRecordsRef.current, "character_cards", characterCards, setStorageError);
+  }, [characterCards, hydrated]);
+
+  useEffect(() => {
+    if (hydrated) persistCollectionChanges(savedRecordsRef.current, "characters", characters, setStorageError);
   }, [characters, hydrated]);
 
+  useEffect(() => {
+    if (hydrated) persistCollectionChanges(savedRecordsRef.current, "trash", trash, setStorageError);
+  }, [trash, hydrated]);
+
+  // Purges expired items on load and then hourly; changing the retention only takes effect at the next purge.
+  // Runs after the trash is persisted once, so purged items are deleted from the store too.
   useEffect(() => {
     if (!hydrated) return;
-    (async () => {
-      try {
-        await idbPutManyCharacters(characters);
-        setStorageError(null);
-      } catch (e: any) {
-        setStorageError(e?.message ? String(e.message) : "Failed to save data.");
-      }
-    })();
-  }, [characters, hydrated]);
+    const purge = () =>
+      setTrash((prev) => {
+        const expired = getExpiredTrashIds(prev, trashRetentionRef.current);
+        return expired.length ? prev.filter((item) => !expired.includes(item.id)) : prev;
+      });
+    purge();
+    const t = window.setInterval(purge, TRASH_PURGE_INTERVAL_MS);
+    return () => window.clearInterval(t);
+  }, [hydrated]);
+
+  function commitTrashRetentionDraft() {
+    const n = Math.floor(Number(trashRetentionDraft));
+    if (trashRetentionDraft.trim() && Number.isFinite(n) && n >= 0 && n <= 3650) {
+      setTrashRetentionDays(n);
+      setTrashRetentionDraft(String(n));
+    } else {
+      setTrashRetentionDraft(String(trashRetentionDays));
+    }
+  }
 
+  // Records an undo step for every change after hydration. Changes inside a history group, or repeated edits to
+  // the same records in quick succession, extend the current step instead of adding one.
+  useEffect(() => {
+    const h = historyRef.current;
+    const next: HistorySnapshot = { characters, stories, lorebooks, characterCards };
+    const prev = h.last;
+    h.last = hydrated ? next : null;
+    if (!prev) return;
+    const key = getHistoryChangeKey(prev, next);
+    if (!key) return;
+    const now = Date.now();
+    const extend = h.groupDepth > 0 ? h.groupStarted : key === h.lastKey && now - h.lastAt < HISTORY_COALESCE_MS;
+    h.lastKey = key;
+    h.lastAt = now;
+    if (h.groupDepth > 0) h.groupStarted = true;
+    if (extend) return;
+    h.undo = [...h.undo.slice(-(HISTORY_LIMIT - 1)), prev];
+    h.redo = [];
+    setHistoryCounts({ undo: h.undo.length, redo: 0 });
+  }, [characters, stories, lorebooks, characterCards, hydrated]);
 
   useEffect(() => {
-    const card = characterCards.find((c) => c.id === activeCharacterCardId);
-    if (!card) return;
+    historyShortcutRef.current = applyHistoryStep;
+  });
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS). Text fields keep their own undo.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== "z") return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      e.preventDefault();
+      historyShortcutRef.current(e.shiftKey ? "redo" : "undo");
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+
+  function loadCharacterCardIntoEditor(card: CharacterCard) {
     setCardSystemRules(card.systemRules || "");
     setCardSelectedSystemRuleIds(card.selectedSystemRuleIds || []);
     const msgs = card.firstMessageMessages?.length ? [...card.firstMessageMessages] : [""];
@@ -1589,19 +4697,38 @@ export default function CharacterCreatorApp() {
     setIntroIndex(clampIndex(card.selectedFirstMessageIndex || 0, msgs.length));
     setIntroVersionHistories(msgs.map((m) => [m || ""]));
     setIntroVersionIndices(msgs.map(() => 0));
+    setCardEditorCardId(card.id);
+  }
+
+  useEffect(() => {
+    const card = characterCards.find((c) => c.id === activeCharacterCardId);
+    if (card) loadCharacterCardIntoEditor(card);
   }, [activeCharacterCardId]);
 
+  // Unchanged values keep the card object as is, so loading a card does not count as an edit.
   useEffect(() => {
-    if (!hydrated || !activeCharacterCardId) return;
-    setCharacterCards((prev) => prev.map((card) => card.id !== activeCharacterCardId ? card : {
-      ...card,
-      systemRules: cardSystemRules,
-      selectedSystemRuleIds: cardSelectedSystemRuleIds,
-      firstMessageMessages: introMessages,
-      selectedFirstMessageIndex: introIndex,
-      updatedAt: new Date().toISOString(),
-    }));
-  }, [hydrated, activeCharacterCardId, cardSystemRules, cardSelectedSystemRuleIds, introMessages, introIndex]);
+    if (!hydrated || !activeCharacterCardId || cardEditorCardId !== activeCharacterCardId) return;
+    setCharacterCards((prev) => {
+      const card = prev.find((c) => c.id === activeCharacterCardId);
+      if (
+        !card ||
+        (card.systemRules === cardSystemRules &&
+          isSameStringList(card.selectedSystemRuleIds, cardSelectedSystemRuleIds) &&
+          isSameStringList(card.firstMessageMessages, introMessages) &&
+          card.selectedFirstMessageIndex === introIndex)
+      ) {
+        return prev;
+      }
+      return prev.map((c) => c.id !== activeCharacterCardId ? c : {
+        ...c,
+        systemRules: cardSystemRules,
+        selectedSystemRuleIds: cardSelectedSystemRuleIds,
+        firstMessageMessages: introMessages,
+        selectedFirstMessageIndex: introIndex,
+        updatedAt: new Date().toISOString(),
+      });
+    });
+  }, [hydrated, activeCharacterCardId, cardEditorCardId, cardSystemRules, cardSelectedSystemRuleIds, introMessages, introIndex]);
 
   useEffect(() => {
     if (!hydrated) return;
@@ -2020,11 +5147,30 @@ export default function CharacterCreatorApp() {
     navigateTo("create");
   }
 
+  function getTrashReferenceData(): TrashReferenceData {
+    return { characters, stories, characterCards, personas };
+  }
+
+  function setTrashReferenceData(data: TrashReferenceData) {
+    setCharacters(data.characters);
+    setStories(data.stories);
+    setCharacterCards(data.characterCards);
+    setPersonas(data.personas);
+  }
+
+  function moveToTrash(item: TrashItem) {
+    setTrash((prev) => [item, ...prev.filter((x) => x.id !== item.id)]);
+    setTrashNotice("");
+  }
+
   function deleteCharacter(id: string) {
-    setCharacters((prev) => prev.filter((c) => c.id !== id));
+    const record = characters.find((c) => c.id === id);
+    if (!record) return;
+    const { data, refs } = detachTrashReferences("character", id, getTrashReferenceData());
+    setTrashReferenceData({ ...data, characters: data.characters.filter((c) => c.id !== id) });
+    moveToTrash({ id, kind: "character", record, refs, deletedAt: new Date().toISOString(), recordSchemaVersion: getLatestSchemaVersion("characters") });
     if (selectedId === id) setSelectedId(null);
     if (previewId === id) setPreviewId(null);
-    idbDeleteCharacter(id).catch(() => {});
   }
 
   async function readFileAsDataUrl(file: File): Promise<string> {
@@ -2151,28 +5297,92 @@ export default function CharacterCreatorApp() {
     const linked = characters.find((c) => c.id === session.characterId) || null;
     setChatCharacter(linked);
     setChatInput("");
+    setChatStorySpeakerId("");
+    setEditingChatMessageIndex(null);
     setGenError(null);
     navigateTo("chat");
   }
 
-  function startChatWithCharacter(c: Character) {
-    const now = new Date().toISOString();
-    const latest = chatSessions.find((s) => s.characterId === c.id);
+  function startChatWithCharacter(c: Character) {
+    const now = new Date().toISOString();
+    const latest = chatSessions.find((s) => s.characterId === c.id);
+    if (latest) {
+      openChatSession({ ...latest, characterName: c.name, characterImageDataUrl: c.imageDataUrl || latest.characterImageDataUrl });
+      return;
+    }
+    const greeting = collapseWhitespace(
+      c.introMessages?.[
+        clampIndex(c.selectedIntroIndex || 0, Math.max(1, c.introMessages?.length || 1))
+      ] || ""
+    );
+    const session: ChatSession = {
+      id: uid(),
+      characterId: c.id,
+      characterName: c.name,
+      characterImageDataUrl: c.imageDataUrl || "",
+      messages: greeting ? [{ role: "assistant", content: greeting }] : [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    upsertChatSession(session);
+    openChatSession(session);
+  }
+
+  // Unknown or empty ids fall back to the default persona.
+  function resolvePersona(id?: string) {
+    return personas.find((p) => p.id === id) || personas.find((p) => p.id === defaultPersonaId) || null;
+  }
+
+  function createPersona() {
+    const persona = normalizePersona({ name: `Persona ${personas.length + 1}` });
+    if (!persona) return;
+    setPersonas((prev) => [...prev, persona]);
+    if (!personas.length) setDefaultPersonaId(persona.id);
+    setEditingPersonaId(persona.id);
+  }
+
+  function updatePersona(id: string, patch: Partial<Persona>) {
+    setPersonas((prev) => prev.map((p) => (p.id === id ? { ...p, ...patch, updatedAt: new Date().toISOString() } : p)));
+  }
+
+  function deletePersona(id: string) {
+    const ok = window.confirm("Delete this persona? Chats and stories using it will fall back to the default persona.");
+    if (!ok) return;
+    setPersonas((prev) => prev.filter((p) => p.id !== id));
+    if (defaultPersonaId === id) setDefaultPersonaId("");
+    if (editingPersonaId === id) setEditingPersonaId(null);
+  }
+
+  async function handlePickPersonaImage(file: File) {
+    if (!editingPersonaId) return;
+    const maxBytes = 10 * 1024 * 1024;
+    if (file.size > maxBytes || !file.type.startsWith("image/")) return;
+    try {
+      const dataUrl = await readFileAsDataUrl(file);
+      updatePersona(editingPersonaId, { imageDataUrl: dataUrl });
+    } catch {
+      // ignore invalid persona image
+    }
+  }
+
+  // Opens the latest group chat for the story, or starts one from its selected first message.
+  function startStoryChat(story: StoryProject) {
+    const latest = chatSessions.find((s) => s.storyId === story.id);
     if (latest) {
-      openChatSession({ ...latest, characterName: c.name, characterImageDataUrl: c.imageDataUrl || latest.characterImageDataUrl });
+      openChatSession(latest);
       return;
     }
-    const greeting = collapseWhitespace(
-      c.introMessages?.[
-        clampIndex(c.selectedIntroIndex || 0, Math.max(1, c.introMessages?.length || 1))
-      ] || ""
-    );
+    const now = new Date().toISOString();
+    const versions = story.firstMessageVersions?.length ? story.firstMessageVersions : [story.firstMessage || ""];
+    const opening = collapseWhitespace(versions[clampIndex(story.selectedFirstMessageIndex || 0, versions.length)] || "");
     const session: ChatSession = {
       id: uid(),
-      characterId: c.id,
-      characterName: c.name,
-      characterImageDataUrl: c.imageDataUrl || "",
-      messages: greeting ? [{ role: "assistant", content: greeting }] : [],
+      characterId: "",
+      characterName: collapseWhitespace(story.title) || "Untitled story",
+      characterImageDataUrl: story.imageDataUrl || "",
+      messages: opening ? [{ role: "assistant", content: opening }] : [],
+      storyId: story.id,
+      turnMode: "turn_order",
       createdAt: now,
       updatedAt: now,
     };
@@ -2180,9 +5390,31 @@ export default function CharacterCreatorApp() {
     openChatSession(session);
   }
 
-  function buildCharacterChatSystemPrompt(c: Character) {
-    const persona = collapseWhitespace(personaText);
-    return [
+  function setChatTurnMode(mode: StoryTurnMode) {
+    if (!activeChatSessionId) return;
+    setChatSessions((prev) => prev.map((s) => (s.id === activeChatSessionId ? { ...s, turnMode: mode } : s)));
+  }
+
+  function buildStoryChatSystemPrompt(story: StoryProject, speaker: Character, persona = chatPersona) {
+    const selectedRules = getStorySelectedSystemRules(story);
+    const prompt = [
+      `You are roleplaying as ${speaker.name} in a multi-character story. Write only ${speaker.name}'s next reply; never speak or act for other cast members or the user.`,
+      `Story: ${story.title || ""}`,
+      `Scenario: ${story.scenario || ""}`,
+      `System rules: ${story.systemRules || ""}`,
+      selectedRules.length ? `Selected system rules:\n${selectedRules.join("\n")}` : "",
+      `Cast:\n${getStoryCharacterContext(story)}`,
+      `Relationships:\n${getStoryRelationshipContext(story)}`,
+      describePersona(persona),
+      `Earlier replies are prefixed with the speaker's name. Do not prefix your own reply with "${speaker.name}:".`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+    return expandMacros(prompt, getMacroContext(speaker.name, "", getPersonaName(persona)));
+  }
+
+  function buildCharacterChatSystemPrompt(c: Character, persona = chatPersona) {
+    const prompt = [
       "You are roleplaying as the following character. Stay in-character and speak naturally.",
       `Name: ${c.name}`,
       `Gender: ${c.gender || ""}`,
@@ -2195,9 +5427,23 @@ export default function CharacterCreatorApp() {
       `Backstory: ${(c.backstory || []).join(" | ")}`,
       `Synopsis: ${c.synopsis || ""}`,
       `System rules: ${c.systemRules || ""}`,
-      persona ? `User persona: ${persona}` : "User persona: (not provided)",
+      describePersona(persona),
       "Respond as the character in chat. Keep continuity with prior messages.",
     ].join("\n");
+    return expandMacros(prompt, getMacroContext(c.name, "", getPersonaName(persona)));
+  }
+
+  function getMacroContext(char = "", seed = "", user = getPersonaName(resolvePersona())): MacroContext {
+    return {
+      char: collapseWhitespace(char) || undefined,
+      user,
+      random: seed ? createSeededRandom(seed) : undefined,
+      lorebook: (name) => {
+        const wanted = collapseWhitespace(name).toLowerCase();
+        const book = lorebooks.find((b) => collapseWhitespace(b.name).toLowerCase() === wanted);
+        return book ? serializeLorebookForContext(book) : undefined;
+      },
+    };
   }
 
   function serializeLorebookForContext(book: Lorebook) {
@@ -2213,14 +5459,12 @@ export default function CharacterCreatorApp() {
     return `# Lorebook: ${book.name}\n${parts.join("\n")}`;
   }
 
-  function getAssignedLorebookContext(assignedLorebookIds: string[] = []) {
+  function getAssignedLoreActivations(assignedLorebookIds: string[] = [], scanText = "", options: LoreScanOptions = {}) {
     const ids = Array.from(new Set((assignedLorebookIds || []).filter(Boolean)));
-    if (!ids.length) return "";
     const assigned = ids
       .map((id) => lorebooks.find((b) => b.id === id))
       .filter((b): b is Lorebook => !!b);
-    if (!assigned.length) return "";
-    return assigned.map(serializeLorebookForContext).join("\n\n");
+    return assigned.length ? scanLorebooks(assigned, scanText, options) : [];
   }
 
   const activeStory = useMemo(
@@ -2228,18 +5472,22 @@ export default function CharacterCreatorApp() {
     [stories, activeStoryId]
   );
 
-  useEffect(() => {
-    const versions = activeStory?.firstMessageVersions?.length
-      ? activeStory.firstMessageVersions
-      : [activeStory?.firstMessage || ""];
-    const selectedIdx = clampIndex(activeStory?.selectedFirstMessageIndex || 0, versions.length);
-    setStoryImageDataUrl(activeStory?.imageDataUrl || "");
+  function loadStoryIntoEditor(story: StoryProject | null) {
+    const versions = story?.firstMessageVersions?.length
+      ? story.firstMessageVersions
+      : [story?.firstMessage || ""];
+    const selectedIdx = clampIndex(story?.selectedFirstMessageIndex || 0, versions.length);
+    setStoryImageDataUrl(story?.imageDataUrl || "");
     setStoryFirstMessageInput(versions[selectedIdx] || "");
     setStoryFirstMessageHistories(versions.map((text) => [text || ""]));
     setStoryFirstMessageHistoryIndices(versions.map(() => 0));
     setStoryFirstMessageRevisionPrompt(`Current first message context:\n${versions[selectedIdx] || "(empty)"}\n\nRevision instructions:\n`);
-    setStoryFirstMessageStyle(activeStory?.firstMessageStyle || "realistic");
-    setStorySystemRulesInput(activeStory?.systemRules || "");
+    setStoryFirstMessageStyle(story?.firstMessageStyle || "realistic");
+    setStorySystemRulesInput(story?.systemRules || "");
+  }
+
+  useEffect(() => {
+    loadStoryIntoEditor(activeStory);
   }, [activeStory?.id]);
 
   const latestCharacter = useMemo(
@@ -2291,10 +5539,103 @@ export default function CharacterCreatorApp() {
   }
 
   function deleteStory(id: string) {
-    setStories((prev) => prev.filter((s) => s.id !== id));
+    const record = stories.find((s) => s.id === id);
+    if (!record) return;
+    const { data, refs } = detachTrashReferences("story", id, getTrashReferenceData());
+    setTrashReferenceData({ ...data, stories: data.stories.filter((s) => s.id !== id) });
+    moveToTrash({ id, kind: "story", record, refs, deletedAt: new Date().toISOString(), recordSchemaVersion: getLatestSchemaVersion("stories") });
     if (activeStoryId === id) setActiveStoryId(null);
   }
 
+  function deleteLorebook(id: string) {
+    const record = lorebooks.find((b) => b.id === id);
+    if (!record) return;
+    const { data, refs } = detachTrashReferences("lorebook", id, getTrashReferenceData());
+    setTrashReferenceData(data);
+    setLorebooks((prev) => prev.filter((b) => b.id !== id));
+    // The open character form autosaves its own copy of the assignments.
+    setCharacterAssignedLorebookIds((prev) => prev.filter((x) => x !== id));
+    moveToTrash({ id, kind: "lorebook", record, refs, deletedAt: new Date().toISOString(), recordSchemaVersion: getLatestSchemaVersion("lorebooks") });
+    if (activeLorebookId === id) setActiveLorebookId(null);
+  }
+
+  function deleteFaction(lorebookId: string, factionId: string) {
+    const book = lorebooks.find((b) => b.id === lorebookId);
+    const record = book?.factions.find((f) => f.id === factionId);
+    if (!book || !record) return;
+    updateLorebook(book.id, { factions: book.factions.filter((f) => f.id !== factionId) });
+    moveToTrash({
+      id: `${lorebookId}:${factionId}`,
+      kind: "faction",
+      lorebookId,
+      record,
+      refs: createEmptyTrashRefs(),
+      deletedAt: new Date().toISOString(),
+      recordSchemaVersion: getLatestSchemaVersion("lorebooks"),
+    });
+  }
+
+  function deleteChatSession(id: string) {
+    const record = chatSessions.find((s) => s.id === id);
+    if (!record) return;
+    setChatSessions((prev) => prev.filter((s) => s.id !== id));
+    moveToTrash({ id, kind: "chat_session", record, refs: createEmptyTrashRefs(), deletedAt: new Date().toISOString(), recordSchemaVersion: getLatestSchemaVersion("chat_sessions") });
+    if (activeChatSessionId === id) setActiveChatSessionId(null);
+  }
+
+  // Brings a record back at the current schema and re-adds its references where the referencing records still
+  // exist. A record that is already back, e.g. through undo, just leaves the trash.
+  function restoreTrashItem(item: TrashItem) {
+    const store = TRASH_KINDS.find((k) => k.kind === item.kind)?.store || "characters";
+    historyRef.current.trashed.set(item.id, item);
+    const name = getRecordLabel(item.record);
+    if (item.kind === "faction") {
+      const book = lorebooks.find((b) => b.id === item.lorebookId);
+      if (!book) {
+        setTrashNotice(`Restore the lorebook of ${name} first.`);
+        return;
+      }
+      setTrash((prev) => prev.filter((x) => x.id !== item.id));
+      if (!book.factions.some((f) => f.id === item.record.id)) updateLorebook(book.id, { factions: [...book.factions, item.record] });
+      setTrashNotice(`Restored ${name} to ${book.name}.`);
+      return;
+    }
+
+    setTrash((prev) => prev.filter((x) => x.id !== item.id));
+    const migrated = migrateRecord(store, { ...item.record, schemaVersion: item.recordSchemaVersion });
+    const exists =
+      item.kind === "character" ? characters.some((c) => c.id === item.id)
+        : item.kind === "story" ? stories.some((s) => s.id === item.id)
+          : item.kind === "lorebook" ? lorebooks.some((b) => b.id === item.id)
+            : chatSessions.some((s) => s.id === item.id);
+    if (exists) {
+      setTrashNotice(`${name} was already back.`);
+      return;
+    }
+    const byUpdated = <T extends { updatedAt: string }>(list: T[]) => list.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    if (item.kind === "chat_session") {
+      const session = normalizeChatSession(migrated);
+      if (session) setChatSessions((prev) => byUpdated([...prev, session]));
+    } else {
+      const data = reattachTrashReferences(item.kind, item.id, item.refs, getTrashReferenceData());
+      if (item.kind === "character") {
+        const character = normalizeCharacter(migrated);
+        if (character) data.characters = byUpdated([...data.characters, character]);
+      } else if (item.kind === "story") {
+        const story = normalizeStory(migrated);
+        if (story) data.stories = byUpdated([...data.stories, story]);
+      } else {
+        const book = normalizeLorebook(migrated);
+        if (book) setLorebooks((prev) => byUpdated([...prev, book]));
+        if (selectedId && item.refs.characterIds.includes(selectedId)) {
+          setCharacterAssignedLorebookIds((prev) => (prev.includes(item.id) ? prev : [...prev, item.id]));
+        }
+      }
+      setTrashReferenceData(data);
+    }
+    setTrashNotice(`Restored ${name}.`);
+  }
+
 
   function toggleCharacterLorebookAssignment(lorebookId: string) {
     setCharacterAssignedLorebookIds((prev) =>
@@ -2467,75 +5808,30 @@ export default function CharacterCreatorApp() {
   }
 
   function exportLorebookAsEntries(book: Lorebook) {
-    const allEntries: Array<{ entry: LorebookEntry; contentOverride?: string }> = [
-      { entry: { ...book.worldEntry, category: "world" as const, tagsRaw: "world" } },
-      ...book.locationEntries.map((entry) => ({ entry: { ...entry, category: "location" as const, tagsRaw: "important" } })),
-      ...book.factions.map((f) => ({ entry: { ...f.entry, category: "faction" as const, tagsRaw: "faction", name: f.name }, contentOverride: f.details || f.entry.content })),
-      ...book.rulesEntries.map((entry) => ({ entry: { ...entry, category: "rule" as const, tagsRaw: "important" } })),
-      ...book.itemEntries.map((entry) => ({ entry: { ...entry, category: "item" as const, tagsRaw: "important" } })),
-      ...book.specialsEntries.map((entry) => ({ entry: { ...entry, category: "special" as const, tagsRaw: "important" } })),
-    ];
-
-    const entries: Record<string, any> = {};
-    allEntries.forEach((item, index) => {
-      const entry = item.entry;
-      const key = String(index + 1);
-      entries[key] = {
-        uid: index + 1,
-        name: entry.name,
-        key: splitCsv(entry.keysRaw).length ? splitCsv(entry.keysRaw) : [entry.name],
-        keysecondary: splitCsv(entry.keysecondaryRaw),
-        comment: entry.comment,
-        content: item.contentOverride ?? entry.content,
-        constant: entry.activationSetting === "always_active" ? true : entry.constant,
-        selective: entry.activationSetting === "selective" ? true : entry.selective,
-        disable: entry.activationSetting === "disabled" ? true : entry.disable || !entry.enabled,
-        order: entry.order,
-        position: entry.position,
-        category: entry.category,
-        keyMatchMode: entry.keyMatchMode,
-      };
+    const out = lorebookToWorldInfo(book, {
+      tokenBudget: proxyLoreTokenBudget,
+      maxActivations: proxyLoreMaxActivations,
+      recursive: proxyLoreRecursiveScanning,
     });
-
-    const out = {
-      name: book.name,
-      description: book.description || "",
-      entries,
-      extensions: {
-        world_info_depth: 2,
-        world_info_budget: 2048,
-        world_info_min_activations: 0,
-        world_info_max_activations: 100,
-        world_info_recursive_scanning: true,
-        world_info_overflow_alert: true,
-        world_info_case_sensitive: false,
-        world_info_match_whole_words: false,
-      },
-      meta: {
-        title: book.name,
-        author: book.author || "",
-        description: book.description || "",
-        category: "original",
-        tags: splitCsv(book.metaTagsRaw),
-        entryCount: allEntries.length,
-        totalTokens: 0,
-        featured: false,
-        lastChanges: {
-          descriptionChanged: false,
-          entriesChanged: [],
-          entriesAdded: [],
-          entriesDeleted: [],
-          metaChanged: [],
-        },
-        changelog: [],
-        source: "LoreBary",
-        version: "1.0",
-      },
-    };
-
     downloadJSON((filenameSafe(book.name) || "lorebook") + "_entries.json", out);
   }
 
+  async function importLorebookJSON(file: File) {
+    try {
+      const parsed = safeParseJSON(await file.text());
+      const fallbackName = file.name.replace(/(_entries)?\.json$/i, "") || "Imported lorebook";
+      const book = lorebookFromWorldInfo(parsed, fallbackName);
+      if (!book) {
+        alert("This file does not contain lorebook entries.");
+        return;
+      }
+      setLorebooks((prev) => [book, ...prev]);
+      alert(`Lorebook "${book.name}" imported successfully.`);
+    } catch {
+      alert("Failed to import lorebook JSON.");
+    }
+  }
+
   function buildLorebookContextForEditing(book: Lorebook) {
     return [
       `Lorebook: ${book.name}`,
@@ -2544,10 +5840,13 @@ export default function CharacterCreatorApp() {
     ].filter(Boolean).join("\n\n");
   }
 
+  // Keeps the newest part of `text` that fits; the cut point is scaled from the estimated tokens per character.
   function trimTextToContextWindow(text: string, contextTokens: number) {
-    const maxChars = Math.max(2000, Math.floor(contextTokens * 4));
     const raw = String(text || "");
-    return raw.length > maxChars ? raw.slice(raw.length - maxChars) : raw;
+    const tokens = estimateTokens(raw);
+    const budget = Math.max(500, contextTokens);
+    if (tokens <= budget) return raw;
+    return raw.slice(raw.length - Math.floor((raw.length * budget) / tokens));
   }
 
   function getLoreMemoryContext(lorebookId: string, entryId?: string) {
@@ -2568,6 +5867,51 @@ export default function CharacterCreatorApp() {
     });
   }
 
+  // The generation requests below are built apart from running them, so the budget bar next to each prompt
+  // counts exactly what will be sent.
+  function buildLoreEntryPromptRequest(book: Lorebook, entry: LorebookEntry, prompt: string, contentLabel: string): ProxyChatCompletionArgs {
+    return {
+      task: "lorebook",
+      system: `You are a lorebook writing assistant. Improve and extend an existing ${contentLabel.toLowerCase()} using the user prompt and lorebook context. Keep continuity with what is already written. Do not restart from scratch, refine the existing text. Return only the revised ${contentLabel.toLowerCase()}.`,
+      user: `Lorebook context:
+${buildLorebookContextForEditing(book)}
+
+Iteration memory (keep all of this consistent):
+${getLoreMemoryContext(book.id, entry.id) || "(none yet)"}
+
+Entry name: ${entry.name || "Untitled"}
+Current ${contentLabel.toLowerCase()}:
+${entry.content || "(empty)"}
+
+User prompt for improvements:
+${prompt}`,
+      temperature: 0.8,
+      stream: true,
+    };
+  }
+
+  function buildLorebookWorldRequest(book: Lorebook, prompt: string): ProxyChatCompletionArgs {
+    return {
+      task: "lorebook",
+      system: "You are a worldbuilding assistant. Improve and extend the current world entry using the lorebook context and latest prompt. Keep existing details and add depth instead of replacing everything.",
+      user: `Lorebook context:
+${buildLorebookContextForEditing(book)}
+
+Iteration memory (keep all of this consistent):
+${getLoreMemoryContext(book.id, book.worldEntry.id) || "(none yet)"}
+
+Current world entry:
+${book.worldEntry.content || "(empty)"}
+
+New prompt:
+${prompt}
+
+Return only the revised world entry content.`,
+      temperature: 0.85,
+      stream: true,
+    };
+  }
+
   async function applyLoreEntryPrompt(
     entry: LorebookEntry,
     promptInput: string,
@@ -2585,25 +5929,8 @@ export default function CharacterCreatorApp() {
     setGenLoading(true);
     startGeneratedTextPage(fieldKey);
     try {
-      const context = buildLorebookContextForEditing(activeLorebook);
-      const memoryContext = getLoreMemoryContext(activeLorebook.id, entry.id);
       const text = await callProxyChatCompletion({
-        system: `You are a lorebook writing assistant. Improve and extend an existing ${contentLabel.toLowerCase()} using the user prompt and lorebook context. Keep continuity with what is already written. Do not restart from scratch, refine the existing text. Return only the revised ${contentLabel.toLowerCase()}.`,
-        user: `Lorebook context:
-${context}
-
-Iteration memory (keep all of this consistent):
-${memoryContext || "(none yet)"}
-
-Entry name: ${entry.name || "Untitled"}
-Current ${contentLabel.toLowerCase()}:
-${entry.content || "(empty)"}
-
-User prompt for improvements:
-${prompt}`,
-        maxTokens: proxyMaxTokens,
-        temperature: 0.8,
-        stream: proxyStreamingEnabled,
+        ...buildLoreEntryPromptRequest(activeLorebook, entry, prompt, contentLabel),
         onStreamUpdate: (partial) => commitGeneratedText(fieldKey, partial, (next) => onPatch({ content: next })),
       });
       commitGeneratedText(fieldKey, text, (next) => onPatch({ content: next }), true);
@@ -2628,26 +5955,8 @@ ${prompt}`,
     setGenLoading(true);
     startGeneratedTextPage(fieldKey);
     try {
-      const context = buildLorebookContextForEditing(activeLorebook);
-      const memoryContext = getLoreMemoryContext(activeLorebook.id, activeLorebook.worldEntry.id);
       const text = await callProxyChatCompletion({
-        system: "You are a worldbuilding assistant. Improve and extend the current world entry using the lorebook context and latest prompt. Keep existing details and add depth instead of replacing everything.",
-        user: `Lorebook context:
-${context}
-
-Iteration memory (keep all of this consistent):
-${memoryContext || "(none yet)"}
-
-Current world entry:
-${activeLorebook.worldEntry.content || "(empty)"}
-
-New prompt:
-${prompt}
-
-Return only the revised world entry content.`,
-        maxTokens: proxyMaxTokens,
-        temperature: 0.85,
-        stream: proxyStreamingEnabled,
+        ...buildLorebookWorldRequest(activeLorebook, prompt),
         onStreamUpdate: (partial) =>
           commitGeneratedText(
             fieldKey,
@@ -3078,121 +6387,507 @@ Return only the revised world entry content.`,
     setStoryRelationshipEditorOpen(false);
   }
 
-  async function improveSelectedRelationshipDetails(mode: "generate" | "revise") {
-    if (!activeStory || !selectedRelationshipId) return;
-    const rel = activeStory.relationships.find((r) => r.id === selectedRelationshipId);
-    if (!rel) return;
-    const prompt = collapseWhitespace(relationshipDetailsPrompt);
-    if (!prompt) {
-      setGenError("Write a relationship details prompt first.");
-      return;
-    }
-    const fromName = rel.fromCharacterId === USER_NODE_ID ? "USER" : (characters.find((c) => c.id === rel.fromCharacterId)?.name || rel.fromCharacterId);
-    const toName = rel.toCharacterId === USER_NODE_ID ? "USER" : (characters.find((c) => c.id === rel.toCharacterId)?.name || rel.toCharacterId);
-    const fieldKey = `story-relationship-details:${activeStory.id}:${rel.id}`;
+  async function improveSelectedRelationshipDetails(mode: "generate" | "revise") {
+    if (!activeStory || !selectedRelationshipId) return;
+    const rel = activeStory.relationships.find((r) => r.id === selectedRelationshipId);
+    if (!rel) return;
+    const prompt = collapseWhitespace(relationshipDetailsPrompt);
+    if (!prompt) {
+      setGenError("Write a relationship details prompt first.");
+      return;
+    }
+    const fromName = rel.fromCharacterId === USER_NODE_ID ? storyUserLabel : (characters.find((c) => c.id === rel.fromCharacterId)?.name || rel.fromCharacterId);
+    const toName = rel.toCharacterId === USER_NODE_ID ? storyUserLabel : (characters.find((c) => c.id === rel.toCharacterId)?.name || rel.toCharacterId);
+    const fieldKey = `story-relationship-details:${activeStory.id}:${rel.id}`;
+    setGenError(null);
+    setGenLoading(true);
+    startGeneratedTextPage(fieldKey);
+    try {
+      const out = await callProxyChatCompletion({
+        task: "character",
+        system: mode === "generate"
+          ? "Generate rich relationship details for the given pair. Return only details text."
+          : "Revise and improve the current relationship details based on prompt. Return only details text.",
+        user: `Relationship: ${fromName} ↔ ${toName}
+Type: ${rel.relationType}
+Alignment: ${rel.alignment}
+Current details:
+${rel.details || "(empty)"}
+
+Character card context (ONLY entries in the current card):
+${getActiveCardCharactersContext()}
+
+Prompt:
+${prompt}`,
+        maxTokens: 150,
+        lorebookIds: getStoryGenerationLorebookIds(activeStory),
+        stream: true,
+        onStreamUpdate: (partial) => {
+          commitGeneratedText(fieldKey, partial, (next) => {
+            setStoryRelDetails(next);
+            updateStory(activeStory.id, {
+              relationships: activeStory.relationships.map((r) =>
+                r.id === rel.id ? { ...r, details: next } : r
+              ),
+            });
+          });
+        },
+      });
+      commitGeneratedText(fieldKey, out, (next) => {
+        setStoryRelDetails(next);
+        updateStory(activeStory.id, {
+          relationships: activeStory.relationships.map((r) =>
+            r.id === rel.id ? { ...r, details: next } : r
+          ),
+        });
+      }, true);
+    } catch (e: any) {
+      setGenError(e?.message ? String(e.message) : "Relationship details generation failed.");
+    } finally {
+      setGenLoading(false);
+    }
+  }
+
+  const activeChatSession = chatSessions.find((s) => s.id === activeChatSessionId) || null;
+  const chatStory = activeChatSession?.storyId ? stories.find((s) => s.id === activeChatSession.storyId) || null : null;
+  const chatStoryCast = chatStory ? getStoryCast(chatStory) : [];
+  const chatTurnMode: StoryTurnMode = activeChatSession?.turnMode || "turn_order";
+  const chatPersona = resolvePersona(activeChatSession?.personaId || chatStory?.personaId);
+  const activeStoryPersona = resolvePersona(activeStory?.personaId);
+  const storyUserLabel = activeStoryPersona ? getPersonaName(activeStoryPersona) : "USER";
+  const editingPersona = personas.find((p) => p.id === editingPersonaId) || personas[0] || null;
+
+  // Highlighted in the cast bar; a pending message is included so name mentions update while typing.
+  const chatNextStorySpeakerId = chatStory
+    ? pickNextStorySpeaker(
+        chatStoryCast,
+        collapseWhitespace(chatInput) ? [...chatMessages, { role: "user", content: chatInput }] : chatMessages,
+        chatTurnMode,
+        chatStorySpeakerId
+      )
+    : "";
+
+  function getChatMessageAvatar(m: ChatMessage) {
+    if (!chatStory) return chatCharacter?.imageDataUrl || "";
+    return characters.find((c) => c.id === m.speakerId)?.imageDataUrl || chatStory.imageDataUrl || "";
+  }
+
+  function getActiveChatIdentity() {
+    if (chatStory) {
+      return {
+        characterId: "",
+        characterName: collapseWhitespace(chatStory.title) || "Untitled story",
+        characterImageDataUrl: chatStory.imageDataUrl || "",
+        storyId: chatStory.id,
+      };
+    }
+    if (!chatCharacter) return null;
+    return { characterId: chatCharacter.id, characterName: chatCharacter.name, characterImageDataUrl: chatCharacter.imageDataUrl || "" };
+  }
+
+  // Reads the stored session inside the state update so fields written during a generation (summary, turn mode) survive.
+  function saveActiveChatSession(messages: ChatMessage[]) {
+    const identity = getActiveChatIdentity();
+    const id = activeChatSessionId;
+    if (!identity || !id) return;
+    const now = new Date().toISOString();
+    setChatSessions((prev) => {
+      const existing = prev.find((s) => s.id === id);
+      const session: ChatSession = {
+        ...existing,
+        ...identity,
+        id,
+        messages,
+        summarizedCount: existing?.summarizedCount ? Math.min(existing.summarizedCount, messages.length) : existing?.summarizedCount,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+      const merged = existing ? prev.map((s) => (s.id === id ? session : s)) : [session, ...prev];
+      return merged.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    });
+  }
+
+  function patchActiveChatSession(patch: Partial<ChatSession>) {
+    const id = activeChatSessionId;
+    if (!id) return;
+    setChatSessions((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  }
+
+  function getChatHistoryBudget(system: string, user: string) {
+    const loreReserve = proxyLoreTokenBudget > 0 ? proxyLoreTokenBudget : 0;
+    const connection = getTaskConnection("chat");
+    return (
+      connection.contextSize -
+      connection.maxTokens -
+      estimateTokens(`${proxyCustomPrompt}\n\n${system}`) -
+      loreReserve -
+      estimateTokens(user) -
+      CHAT_MESSAGE_TOKEN_OVERHEAD * 2
+    );
+  }
+
+  // Mirrors what the next chat turn will send: persona, system prompt and rules, activated lore, summary plus
+  // the history that still fits, and the space reserved for the reply. Lore entries left to chance count as active.
+  function getChatContextBudget(): { parts: ContextBudgetPart[]; contextSize: number } | null {
+    const speaker = chatStory ? chatStoryCast.find((c) => c.id === chatNextStorySpeakerId) : null;
+    const system = chatStory ? (speaker ? buildStoryChatSystemPrompt(chatStory, speaker) : "") : chatCharacter ? buildCharacterChatSystemPrompt(chatCharacter) : "";
+    if (!system) return null;
+    const connection = getTaskConnection("chat");
+    const personaTokens = estimateTokens(describePersona(chatPersona));
+    const systemTokens = Math.max(0, estimateTokens([collapseWhitespace(proxyCustomPrompt), system].filter(Boolean).join("\n\n")) - personaTokens);
+    const loreIds = [...(chatStory ? getStoryGenerationLorebookIds(chatStory) : chatCharacter?.assignedLorebookIds || []), ...(chatPersona?.lorebookIds || [])];
+    const loreTokens = estimateTokens(
+      serializeLoreScanResults(
+        getAssignedLoreActivations(loreIds, [...chatMessages.slice(-LOREBOOK_SCAN_DEPTH).map((m) => m.content), chatInput].join("\n"), {
+          messageCount: chatMessages.length,
+          recursive: proxyLoreRecursiveScanning,
+          tokenBudget: proxyLoreTokenBudget,
+          maxActivations: proxyLoreMaxActivations,
+          random: () => 0,
+        })
+      )
+    );
+    const summary = collapseWhitespace(activeChatSession?.summary || "");
+    const summaryTokens = summary ? estimateTokens(withChatSummary("", summary)) : 0;
+    const inputTokens = estimateTokens(chatInput) + CHAT_MESSAGE_TOKEN_OVERHEAD;
+    const historyRoom = connection.contextSize - connection.maxTokens - personaTokens - systemTokens - loreTokens - summaryTokens - inputTokens;
+    const history = trimChatHistoryToBudget(chatMessages.slice(activeChatSession?.summarizedCount || 0), historyRoom);
+    const historyTokens = summaryTokens + inputTokens + history.reduce((sum, m) => sum + estimateTokens(m.content) + CHAT_MESSAGE_TOKEN_OVERHEAD, 0);
+    return {
+      contextSize: connection.contextSize,
+      parts: [
+        { label: "Persona", tokens: personaTokens, color: "hsl(280 55% 60%)" },
+        { label: "System & rules", tokens: systemTokens, color: "hsl(210 70% 55%)" },
+        { label: "Lorebooks", tokens: loreTokens, color: "hsl(150 50% 45%)" },
+        { label: "History", tokens: historyTokens, color: "hsl(40 85% 55%)" },
+        { label: "Response", tokens: connection.maxTokens, color: "hsl(0 0% 60%)" },
+      ],
+    };
+  }
+
+  async function summarizeChatMessages(messages: ChatMessage[], previousSummary: string) {
+    setChatSummarizing(true);
+    try {
+      return await callProxyChatCompletion({
+        task: "chat",
+        system:
+          "You keep the running memory of a long roleplay chat. Merge the new messages into the existing summary. Keep names, relationships, promises, injuries, places and unresolved threads. Write compact past-tense prose and return only the summary.",
+        user: `Existing summary:\n${collapseWhitespace(previousSummary) || "(none)"}\n\nNew messages:\n${formatChatTranscript(messages, chatCharacter?.name || "Assistant")}`,
+        maxTokens: 600,
+        stream: false,
+      });
+    } finally {
+      setChatSummarizing(false);
+    }
+  }
+
+  // Folds messages that no longer fit the context into the session summary before a reply is requested.
+  // A failed summary call only warns: the reply goes ahead with the saved summary and the newest messages that fit.
+  async function updateChatSummary(history: ChatMessage[], system: string, user: string) {
+    const session = chatSessions.find((s) => s.id === activeChatSessionId);
+    const summary = session?.summary || "";
+    const summarizedCount = Math.max(0, Math.min(history.length, session?.summarizedCount || 0));
+    const budget = getChatHistoryBudget(withChatSummary(system, summary), user);
+    const cutoff = getChatSummaryCutoff(history, summarizedCount, budget);
+    if (cutoff <= summarizedCount) return { summary, history: history.slice(summarizedCount) };
+    try {
+      const next = await summarizeChatMessages(history.slice(summarizedCount, cutoff), summary);
+      patchActiveChatSession({ summary: next, summarizedCount: cutoff });
+      return { summary: next, history: history.slice(cutoff) };
+    } catch (e) {
+      if (genAbortRef.current?.signal.aborted) throw e;
+      setGenError(`The chat summary could not be updated, so the oldest messages were left out: ${e instanceof Error ? e.message : e}`);
+      return { summary, history: trimChatHistoryToBudget(history.slice(summarizedCount), budget) };
+    }
+  }
+
+  // Rebuilds the summary from scratch over the covered messages, or over all but the most recent ones if none are covered yet.
+  async function regenerateChatSummary() {
+    if (genLoading || !activeChatSessionId) return;
+    const covered = Math.max(activeChatSession?.summarizedCount || 0, chatMessages.length - CHAT_SUMMARY_RECENT_MESSAGES);
+    if (covered <= 0) {
+      setGenError("Not enough messages to summarize yet.");
+      return;
+    }
+    setGenError(null);
+    setGenLoading(true);
+    try {
+      const summary = await summarizeChatMessages(chatMessages.slice(0, covered), "");
+      patchActiveChatSession({ summary, summarizedCount: covered });
+    } catch (e: any) {
+      setGenError(e?.message ? String(e.message) : "Summary failed.");
+    } finally {
+      setGenLoading(false);
+    }
+  }
+
+  function branchChatFromMessage(index: number) {
+    const identity = getActiveChatIdentity();
+    if (genLoading || !identity || !activeChatSessionId) return;
+    const now = new Date().toISOString();
+    const session: ChatSession = {
+      ...identity,
+      id: uid(),
+      messages: chatMessages.slice(0, index + 1),
+      turnMode: activeChatSession?.turnMode,
+      summary: activeChatSession?.summary,
+      summarizedCount: activeChatSession?.summarizedCount ? Math.min(activeChatSession.summarizedCount, index + 1) : undefined,
+      parentSessionId: activeChatSessionId,
+      parentMessageIndex: index,
+      createdAt: now,
+      updatedAt: now,
+    };
+    upsertChatSession(session);
+    openChatSession(session);
+  }
+
+  const activeChatBranchRoot = activeChatSessionId ? getChatBranchRoot(chatSessions, activeChatSessionId) : null;
+  // Siblings share a parent session; the parent itself counts as the first sibling.
+  const activeChatSiblings = activeChatSession?.parentSessionId
+    ? [
+        ...chatSessions.filter((s) => s.id === activeChatSession.parentSessionId),
+        ...getChatBranchChildren(chatSessions, activeChatSession.parentSessionId),
+      ]
+    : activeChatSession && getChatBranchChildren(chatSessions, activeChatSession.id).length
+      ? [activeChatSession, ...getChatBranchChildren(chatSessions, activeChatSession.id)]
+      : [];
+  const activeChatSiblingIndex = activeChatSiblings.findIndex((s) => s.id === activeChatSessionId);
+
+  function renderChatBranchNode(session: ChatSession, depth: number, seen: Set<string>): React.ReactNode {
+    if (seen.has(session.id)) return null;
+    seen.add(session.id);
+    return (
+      <div key={session.id}>
+        <button
+          type="button"
+          onClick={() => openChatSession(session)}
+          className={cn(
+            "clickable w-full rounded-lg px-2 py-1 text-left text-xs",
+            activeChatSessionId === session.id ? "bg-[hsl(var(--muted))] font-semibold" : "text-[hsl(var(--muted-foreground))]"
+          )}
+          style={{ paddingLeft: `${0.5 + depth * 0.9}rem` }}
+        >
+          {session.parentSessionId ? `↳ From message #${(session.parentMessageIndex ?? 0) + 1}` : "Main"} · {session.messages.length} msgs
+        </button>
+        {getChatBranchChildren(chatSessions, session.id).map((child) => renderChatBranchNode(child, depth + 1, seen))}
+      </div>
+    );
+  }
+
+  // Streams a reply to the trailing user message of `base`. A regenerated reply becomes a new swipe page
+  // appended to `previous`, so earlier versions stay reachable.
+  async function generateChatReply(base: ChatMessage[], previous?: ChatMessage) {
+    if (chatStory) return generateStoryChatReply(chatStory, base, previous);
+    if (!chatCharacter || !activeChatSessionId) return;
+    const userMessage = base[base.length - 1];
+    if (!userMessage || userMessage.role !== "user") return;
+    const prior = getChatMessageSwipes(previous);
+    const pageId = uid();
+    const withReply = (text: string, isFinal: boolean, reasoning = ""): ChatMessage[] => {
+      const pages = [...prior.pages, { id: pageId, text, isFinal, ...(reasoning ? { reasoning } : {}) }];
+      return [...base, { role: "assistant", content: text, ...(reasoning ? { reasoning } : {}), swipes: { pages, activeIndex: pages.length - 1 } }];
+    };
+
     setGenError(null);
     setGenLoading(true);
-    startGeneratedTextPage(fieldKey);
+    let partialReply = "";
+    let partialReasoning = "";
     try {
-      const out = await callProxyChatCompletion({
-        system: mode === "generate"
-          ? "Generate rich relationship details for the given pair. Return only details text."
-          : "Revise and improve the current relationship details based on prompt. Return only details text.",
-        user: `Relationship: ${fromName} ↔ ${toName}
-Type: ${rel.relationType}
-Alignment: ${rel.alignment}
-Current details:
-${rel.details || "(empty)"}
-
-Character card context (ONLY entries in the current card):
-${getActiveCardCharactersContext()}
-
-Prompt:
-${prompt}`,
-        maxTokens: Math.min(150, proxyMaxTokens),
-        lorebookIds: getStoryGenerationLorebookIds(activeStory),
-        stream: proxyStreamingEnabled,
+      const system = buildCharacterChatSystemPrompt(chatCharacter);
+      const history = base.slice(0, -1);
+      const memory = await updateChatSummary(history, system, userMessage.content);
+      const reply = await callProxyChatCompletion({
+        task: "chat",
+        system: withChatSummary(system, memory.summary),
+        history: memory.history,
+        user: userMessage.content,
+        macroChar: chatCharacter.name,
+        macroUser: getPersonaName(chatPersona),
+        stream: true,
+        lorebookIds: [...chatCharacter.assignedLorebookIds, ...(chatPersona?.lorebookIds || [])],
+        loreScanText: base.slice(-LOREBOOK_SCAN_DEPTH).map((m) => m.content).join("\n"),
+        loreMessageCount: base.length,
         onStreamUpdate: (partial) => {
-          commitGeneratedText(fieldKey, partial, (next) => {
-            setStoryRelDetails(next);
-            updateStory(activeStory.id, {
-              relationships: activeStory.relationships.map((r) =>
-                r.id === rel.id ? { ...r, details: next } : r
-              ),
-            });
-          });
+          partialReply = partial;
+          setChatMessages(withReply(partial, false, partialReasoning));
+        },
+        onReasoning: (reasoning) => {
+          partialReasoning = reasoning;
+          setChatMessages(withReply(partialReply, false, reasoning));
         },
       });
-      commitGeneratedText(fieldKey, out, (next) => {
-        setStoryRelDetails(next);
-        updateStory(activeStory.id, {
-          relationships: activeStory.relationships.map((r) =>
-            r.id === rel.id ? { ...r, details: next } : r
-          ),
-        });
-      }, true);
+      const finalMessages = withReply(reply, true, proxyKeepChatReasoning ? partialReasoning : "");
+      setChatMessages(finalMessages);
+      saveActiveChatSession(finalMessages);
     } catch (e: any) {
-      setGenError(e?.message ? String(e.message) : "Relationship details generation failed.");
+      setGenError(e?.message ? String(e.message) : "Chat failed.");
+      if (collapseWhitespace(partialReply)) saveActiveChatSession(withReply(partialReply, false, proxyKeepChatReasoning ? partialReasoning : ""));
     } finally {
       setGenLoading(false);
     }
   }
 
-  async function sendChatMessage() {
-    if (!chatCharacter || !activeChatSessionId || genLoading) return;
-    const text = collapseWhitespace(chatInput);
-    if (!text) return;
-    setGenError(null);
-    const newHistory = [...chatMessages, { role: "user" as const, content: text }];
-    setChatMessages(newHistory);
-    setChatInput("");
-
-    const approxPerMessage = 220;
-    const maxHistory = Math.max(2, Math.floor(proxyContextSize / approxPerMessage));
-    const trimmedHistory = newHistory.slice(-maxHistory);
-    const system = buildCharacterChatSystemPrompt(chatCharacter);
-    const transcript = trimmedHistory
-      .map((m) => `${m.role === "user" ? "User" : chatCharacter.name}: ${m.content}`)
-      .join("\n");
-    const user = `Conversation so far:
-${transcript}
-
-Write the character's next reply to the latest user message.`;
+  // Story group chats: the reply comes from `speakerId`, the regenerated reply's speaker, or the turn mode's pick.
+  // Without a trailing user message the speaker simply takes the next turn.
+  async function generateStoryChatReply(story: StoryProject, base: ChatMessage[], previous?: ChatMessage, speakerId = "") {
+    if (!activeChatSessionId) return;
+    const nextId = speakerId || previous?.speakerId || pickNextStorySpeaker(chatStoryCast, base, chatTurnMode, chatStorySpeakerId);
+    const speaker = chatStoryCast.find((c) => c.id === nextId);
+    if (!speaker) {
+      setGenError("Add characters to the story cast before chatting.");
+      return;
+    }
+    const trailing = base[base.length - 1];
+    const userTurn = trailing?.role === "user" ? trailing : null;
+    const prior = getChatMessageSwipes(previous);
+    const pageId = uid();
+    const withReply = (text: string, isFinal: boolean, reasoning = ""): ChatMessage[] => {
+      const pages = [...prior.pages, { id: pageId, text, isFinal, ...(reasoning ? { reasoning } : {}) }];
+      return [
+        ...base,
+        {
+          role: "assistant",
+          content: text,
+          ...(reasoning ? { reasoning } : {}),
+          swipes: { pages, activeIndex: pages.length - 1 },
+          speakerId: speaker.id,
+          speakerName: speaker.name,
+        },
+      ];
+    };
 
+    setGenError(null);
     setGenLoading(true);
-    const fieldKey = `chat:${activeChatSessionId}`;
-    startGeneratedTextPage(fieldKey);
+    let partialReply = "";
+    let partialReasoning = "";
     try {
+      const system = buildStoryChatSystemPrompt(story, speaker);
+      const history = userTurn ? base.slice(0, -1) : base;
+      const user = userTurn ? userTurn.content : `(Continue the scene as ${speaker.name}.)`;
+      const memory = await updateChatSummary(history, system, user);
       const reply = await callProxyChatCompletion({
-        system,
+        task: "chat",
+        system: withChatSummary(system, memory.summary),
+        history: formatStoryChatHistory(
+          memory.history.map((m) => ({ ...m, content: expandMacros(m.content, getMacroContext(m.speakerName || speaker.name, m.content, getPersonaName(chatPersona))) }))
+        ),
         user,
-        stream: proxyStreamingEnabled,
-        lorebookIds: chatCharacter.assignedLorebookIds,
+        macroChar: speaker.name,
+        macroUser: getPersonaName(chatPersona),
+        stream: true,
+        lorebookIds: [...getStoryGenerationLorebookIds(story), ...(chatPersona?.lorebookIds || [])],
+        loreScanText: base.slice(-LOREBOOK_SCAN_DEPTH).map((m) => m.content).join("\n"),
+        loreMessageCount: base.length,
         onStreamUpdate: (partial) => {
-          updateGeneratedTextPage(fieldKey, partial);
-          setChatMessages([...newHistory, { role: "assistant" as const, content: partial }]);
+          partialReply = stripStorySpeakerPrefix(partial, speaker.name);
+          setChatMessages(withReply(partialReply, false, partialReasoning));
+        },
+        onReasoning: (reasoning) => {
+          partialReasoning = reasoning;
+          setChatMessages(withReply(partialReply, false, reasoning));
         },
       });
-      updateGeneratedTextPage(fieldKey, reply, true);
-      const finalMessages = [...newHistory, { role: "assistant" as const, content: reply }];
+      const finalMessages = withReply(stripStorySpeakerPrefix(reply, speaker.name), true, proxyKeepChatReasoning ? partialReasoning : "");
       setChatMessages(finalMessages);
-      const now = new Date().toISOString();
-      upsertChatSession({
-        id: activeChatSessionId,
-        characterId: chatCharacter.id,
-        characterName: chatCharacter.name,
-        characterImageDataUrl: chatCharacter.imageDataUrl || "",
-        messages: finalMessages,
-        createdAt: chatSessions.find((s) => s.id === activeChatSessionId)?.createdAt || now,
-        updatedAt: now,
-      });
+      saveActiveChatSession(finalMessages);
     } catch (e: any) {
       setGenError(e?.message ? String(e.message) : "Chat failed.");
+      if (collapseWhitespace(partialReply)) saveActiveChatSession(withReply(partialReply, false, proxyKeepChatReasoning ? partialReasoning : ""));
     } finally {
       setGenLoading(false);
     }
   }
 
+  async function continueStoryChat(speakerId = "") {
+    if (!chatStory || genLoading) return;
+    await generateStoryChatReply(chatStory, chatMessages, undefined, speakerId);
+  }
+
+  async function sendChatMessage() {
+    if ((!chatCharacter && !chatStory) || !activeChatSessionId || genLoading) return;
+    const text = collapseWhitespace(chatInput);
+    if (!text) return;
+    const newHistory = [...chatMessages, { role: "user" as const, content: text }];
+    setChatMessages(newHistory);
+    setChatInput("");
+    await generateChatReply(newHistory);
+  }
+
+  async function regenerateLastChatReply() {
+    if (genLoading || !chatMessages.length) return;
+    const last = chatMessages[chatMessages.length - 1];
+    if (last.role !== "assistant") return;
+    const base = chatMessages.slice(0, -1);
+    if (chatStory ? !last.speakerId : base[base.length - 1]?.role !== "user") return;
+    await generateChatReply(base, last);
+  }
+
+  function updateActiveChatMessages(next: ChatMessage[]) {
+    setChatMessages(next);
+    saveActiveChatSession(next);
+  }
+
+  function startEditingChatMessage(index: number) {
+    setEditingChatMessageIndex(index);
+    setEditingChatMessageText(chatMessages[index]?.content || "");
+  }
+
+  function saveChatMessageEdit() {
+    if (editingChatMessageIndex === null) return;
+    const text = collapseWhitespace(editingChatMessageText);
+    if (!text) return;
+    updateActiveChatMessages(
+      chatMessages.map((m, i) => {
+        if (i !== editingChatMessageIndex) return m;
+        if (!m.swipes) return { ...m, content: text };
+        const pages = m.swipes.pages.map((p, pi) => (pi === m.swipes!.activeIndex ? { ...p, text, isFinal: true } : p));
+        return { ...m, content: text, swipes: { ...m.swipes, pages } };
+      })
+    );
+    invalidateChatSummaryAt(editingChatMessageIndex);
+    setEditingChatMessageIndex(null);
+  }
+
+  function deleteChatMessage(index: number) {
+    if (genLoading) return;
+    updateActiveChatMessages(chatMessages.filter((_, i) => i !== index));
+    invalidateChatSummaryAt(index);
+    setEditingChatMessageIndex(null);
+  }
+
+  // Summarized messages are only sent through the summary, which cannot be partly rewritten. Changing one drops
+  // the summary so the full history is sent again and summarized afresh when it no longer fits.
+  function invalidateChatSummaryAt(index: number) {
+    if (index < (activeChatSession?.summarizedCount || 0)) patchActiveChatSession({ summary: "", summarizedCount: 0 });
+  }
+
+  function rewindChatToMessage(index: number) {
+    if (genLoading || index >= chatMessages.length - 1) return;
+    const ok = window.confirm("Remove every message after this one?");
+    if (!ok) return;
+    updateActiveChatMessages(chatMessages.slice(0, index + 1));
+    setEditingChatMessageIndex(null);
+  }
+
+  function swipeLastChatReply(delta: number) {
+    if (genLoading || !chatMessages.length) return;
+    const last = chatMessages[chatMessages.length - 1];
+    if (last.role !== "assistant") return;
+    const swipes = getChatMessageSwipes(last);
+    const nextIndex = swipes.activeIndex + delta;
+    if (nextIndex >= swipes.pages.length) {
+      regenerateLastChatReply();
+      return;
+    }
+    if (nextIndex < 0) return;
+    const nextMessages = [
+      ...chatMessages.slice(0, -1),
+      { ...last, content: swipes.pages[nextIndex].text, reasoning: swipes.pages[nextIndex].reasoning, swipes: { ...swipes, activeIndex: nextIndex } },
+    ];
+    setChatMessages(nextMessages);
+    saveActiveChatSession(nextMessages);
+  }
+
   function getActiveCardCharacters() {
     const activeCard = characterCards.find((c) => c.id === activeCharacterCardId);
     if (!activeCard) return [] as Character[];
@@ -3243,6 +6938,30 @@ Write the character's next reply to the latest user message.`;
     ].join("\n");
   }
 
+  function getCharacterGenerationLorebookIds() {
+    return Array.from(new Set([...(characterAssignedLorebookIds || []), ...getActiveCardLorebookIds()]));
+  }
+
+  function buildBackstoryRevisionRequest(prompt: string): ProxyChatCompletionArgs {
+    return {
+      task: "character",
+      system: "Revise and improve the character backstory based on user instruction while preserving continuity. Return only the revised backstory text.",
+      user: `Primary character summary (prioritize this):
+${getCharacterSummaryForLLM()}
+
+Other character entries in THIS SAME card only (secondary context):
+${getActiveCardCharactersContext()}
+
+Current backstory:
+${backstoryText || "(empty)"}
+
+Instruction:
+${prompt}`,
+      lorebookIds: getCharacterGenerationLorebookIds(),
+      stream: true,
+    };
+  }
+
   async function reviseBackstoryTextWithPrompt() {
     const prompt = collapseWhitespace(backstoryPrompt);
     if (!prompt) {
@@ -3255,21 +6974,7 @@ Write the character's next reply to the latest user message.`;
     startGeneratedTextPage(fieldKey);
     try {
       const text = await callProxyChatCompletion({
-        system: "Revise and improve the character backstory based on user instruction while preserving continuity. Return only the revised backstory text.",
-        user: `Primary character summary (prioritize this):
-${getCharacterSummaryForLLM()}
-
-Other character entries in THIS SAME card only (secondary context):
-${getActiveCardCharactersContext()}
-
-Current backstory:
-${backstoryText || "(empty)"}
-
-Instruction:
-${prompt}`,
-        maxTokens: proxyMaxTokens,
-        lorebookIds: Array.from(new Set([...(characterAssignedLorebookIds || []), ...getActiveCardLorebookIds()])),
-        stream: proxyStreamingEnabled,
+        ...buildBackstoryRevisionRequest(prompt),
         onStreamUpdate: (partial) => commitGeneratedText(fieldKey, partial, setBackstoryText),
       });
       commitGeneratedText(fieldKey, text, setBackstoryText, true);
@@ -3344,6 +7049,74 @@ ${prompt}`,
     downloadJSON(`${exportName}.json`, payload);
   }
 
+  async function exportCharacterCardPng(c: Character) {
+    try {
+      const books = (c.assignedLorebookIds || [])
+        .map((id) => lorebooks.find((b) => b.id === id))
+        .filter((b): b is Lorebook => !!b);
+      const options: LoreScanOptions = {
+        tokenBudget: proxyLoreTokenBudget,
+        maxActivations: proxyLoreMaxActivations,
+        recursive: proxyLoreRecursiveScanning,
+      };
+      const png = embedCharacterCardInPng(await imageDataUrlToPngBytes(c.imageDataUrl || ""), {
+        chara: characterToCardV2(c, books, options),
+        ccv3: characterToCardV3(c, books, options),
+      });
+      downloadBlob(`${filenameSafe(c.name) || "character"}.png`, new Blob([png], { type: "image/png" }));
+    } catch (e: any) {
+      alert(e?.message ? `Failed to export PNG card. ${e.message}` : "Failed to export PNG card.");
+    }
+  }
+
+  function importTavernCharacterCard(cardData: any, imageDataUrl = "") {
+    const imported = characterFromTavernCard(cardData);
+    if (!imported) {
+      alert("This file does not contain a valid character card.");
+      return;
+    }
+    const now = new Date().toISOString();
+    const character: Character = { ...imported.character, imageDataUrl };
+    const card: CharacterCard = {
+      id: uid(),
+      name: character.name,
+      characterIds: [character.id],
+      systemRules: character.systemRules,
+      selectedSystemRuleIds: [...character.selectedSystemRuleIds],
+      firstMessageMessages: [...character.introMessages],
+      selectedFirstMessageIndex: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (imported.lorebooks.length) setLorebooks((prev) => [...imported.lorebooks, ...prev]);
+    setCharacters((prev) => [character, ...prev].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)));
+    setCharacterCards((prev) => [card, ...prev].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)));
+    setActiveCharacterCardId(card.id);
+    setCharacterCardNameInput(card.name);
+    alert(
+      imported.lorebooks.length
+        ? `Imported ${character.name} with ${imported.lorebooks.length} lorebook(s).`
+        : `Imported ${character.name}.`
+    );
+  }
+
+  async function importCharacterCardFile(file: File) {
+    const isPng = file.type === "image/png" || /\.png$/i.test(file.name);
+    if (!isPng) return importCharacterCardJSON(file);
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const cardData = extractCharacterCardFromPng(bytes);
+      if (!cardData) {
+        alert("This PNG does not contain character card metadata.");
+        return;
+      }
+      importTavernCharacterCard(cardData, `data:image/png;base64,${bytesToBase64(stripCharacterCardFromPng(bytes))}`);
+    } catch {
+      alert("Failed to import character card PNG.");
+    }
+  }
+
   async function importCharacterCardJSON(file: File) {
     try {
       const raw = await file.text();
@@ -3352,21 +7125,25 @@ ${prompt}`,
         alert("Invalid JSON file.");
         return;
       }
+      if (!("card" in parsed) && ((parsed as any).spec || (parsed as any).first_mes !== undefined)) {
+        importTavernCharacterCard(parsed);
+        return;
+      }
 
       const maybeExport = parsed as Partial<CharacterCardJsonExport>;
       const incomingCardRaw = maybeExport.card ?? parsed;
-      const normalizedCard = normalizeCharacterCard(incomingCardRaw);
+      const normalizedCard = normalizeCharacterCard(migrateRecord("character_cards", incomingCardRaw));
       if (!normalizedCard) {
         alert("This file does not contain a valid character card.");
         return;
       }
 
       const importedCharacters = Array.isArray(maybeExport.characters)
-        ? maybeExport.characters.map(normalizeCharacter).filter((c): c is Character => !!c)
+        ? maybeExport.characters.map((c) => normalizeCharacter(migrateRecord("characters", c))).filter((c): c is Character => !!c)
         : [];
 
       const incomingStory = maybeExport.relationshipStory && typeof maybeExport.relationshipStory === "object"
-        ? (maybeExport.relationshipStory as StoryProject)
+        ? (migrateRecord("stories", maybeExport.relationshipStory) as StoryProject)
         : null;
 
       const finalCard: CharacterCard = {
@@ -3405,23 +7182,56 @@ ${prompt}`,
     }
   }
 
-  async function generateStoryFirstMessage() {
-    if (!activeStory) return;
+  function buildStoryFirstMessageRequest(story: StoryProject, prompt: string): ProxyChatCompletionArgs {
     const styleInstruction =
       storyFirstMessageStyle === "dramatic"
         ? "Write in dramatic, vivid, somewhat verbose prose."
         : storyFirstMessageStyle === "melancholic"
           ? "Write in sophisticated, melancholic, reflective prose."
           : "Write in realistic, natural language grounded in context.";
-    const prompt = collapseWhitespace(storyFirstMessagePrompt) || "Generate an opening first message.";
-    const cast = activeStory.characterIds
+    const cast = story.characterIds
       .map((id) => characters.find((c) => c.id === id))
       .filter((c): c is Character => !!c)
       .map((c) => `${c.name}: ${c.synopsis || ""}`)
       .join("\n");
-    const storyCharacterContext = getStoryCharacterContext(activeStory);
-    const relationshipContext = getStoryRelationshipContext(activeStory);
-    const selectedRules = getStorySelectedSystemRules(activeStory);
+    const selectedRules = getStorySelectedSystemRules(story);
+    return {
+      task: "story",
+      system: `You create first messages for roleplay story sessions. ${styleInstruction} Return only the message text.`,
+      user: `Scenario:
+${story.scenario}
+
+System rules:
+${storySystemRulesInput || story.systemRules || ""}
+
+Selected system rules:
+${selectedRules.length ? selectedRules.join("\n") : "(none selected)"}
+
+Characters:
+${cast}
+
+Character context:
+${getStoryCharacterContext(story)}
+
+Relationships:
+${getStoryRelationshipContext(story)}
+
+Story synopsis:
+${story.synopsis || ""}
+
+Character card context (ONLY entries in the current card):
+${getActiveCardCharactersContext()}
+
+Prompt:
+${prompt || "Generate an opening first message."}`,
+      lorebookIds: getStoryGenerationLorebookIds(story),
+      stream: true,
+    };
+  }
+
+  async function generateStoryFirstMessage() {
+    if (!activeStory) return;
+    const prompt = collapseWhitespace(storyFirstMessagePrompt);
     const targetIndex = clampIndex(activeStory.selectedFirstMessageIndex || 0, Math.max(1, activeStory.firstMessageVersions?.length || 1));
     const baseVersions = activeStory.firstMessageVersions?.length ? [...activeStory.firstMessageVersions] : [activeStory.firstMessage || ""];
     const baseline = baseVersions[targetIndex] || "";
@@ -3445,36 +7255,7 @@ ${prompt}`,
     setGenLoading(true);
     try {
       const out = await callProxyChatCompletion({
-        system: `You create first messages for roleplay story sessions. ${styleInstruction} Return only the message text.`,
-        user: `Scenario:
-${activeStory.scenario}
-
-System rules:
-${storySystemRulesInput || activeStory.systemRules || ""}
-
-Selected system rules:
-${selectedRules.length ? selectedRules.join("\n") : "(none selected)"}
-
-Characters:
-${cast}
-
-Character context:
-${storyCharacterContext}
-
-Relationships:
-${relationshipContext}
-
-Story synopsis:
-${activeStory.synopsis || ""}
-
-Character card context (ONLY entries in the current card):
-${getActiveCardCharactersContext()}
-
-Prompt:
-${prompt}`,
-        lorebookIds: getStoryGenerationLorebookIds(activeStory),
-        maxTokens: proxyMaxTokens,
-        stream: proxyStreamingEnabled,
+        ...buildStoryFirstMessageRequest(activeStory, prompt),
         onStreamUpdate: (partial) => {
           setStoryFirstMessageInput(partial);
           setStoryFirstMessageHistories((prev) => {
@@ -3555,11 +7336,11 @@ ${prompt}`,
     setGenLoading(true);
     try {
       const out = await callProxyChatCompletion({
+        task: "story",
         system: "Revise the first message while preserving continuity with story context and character details. Return only the revised first message text.",
         user: `Scenario:\n${activeStory.scenario}\n\nSystem rules:\n${storySystemRulesInput || activeStory.systemRules || ""}\n\nSelected system rules:\n${selectedRules.length ? selectedRules.join("\n") : "(none selected)"}\n\nCharacters:\n${cast}\n\nCharacter context:\n${storyCharacterContext}\n\nRelationships:\n${relationshipContext}\n\nCurrent first message:\n${currentMessage}\n\nRevision instructions:\n${feedback}`,
         lorebookIds: getStoryGenerationLorebookIds(activeStory),
-        maxTokens: proxyMaxTokens,
-        stream: proxyStreamingEnabled,
+        stream: true,
         onStreamUpdate: (partial) => {
           setStoryFirstMessageInput(partial);
           setStoryFirstMessageHistories((prev) => {
@@ -3600,172 +7381,540 @@ ${prompt}`,
   }
 
 
-  async function callProxyChatCompletion(args: {
-    system: string;
-    user: string;
-    maxTokens?: number;
-    temperature?: number;
-    stream?: boolean;
-    lorebookIds?: string[];
-    onStreamUpdate?: (text: string) => void;
-  }) {
-    const chatUrl = collapseWhitespace(proxyChatUrl);
-    const apiKey = collapseWhitespace(proxyApiKey);
-    const model = collapseWhitespace(proxyModel);
+  function switchConnectionProfile(id: string) {
+    const profile = connectionProfiles.find((p) => p.id === id);
+    if (!profile) return;
+    setActiveProfileId(profile.id);
+    setProxyProvider(profile.provider);
+    setProxyChatUrl(profile.chatUrl);
+    setProxyApiKey(profile.apiKey);
+    setProxyModel(profile.model);
+    setProxyMaxTokens(profile.maxTokens);
+    setProxyTemperature(profile.temperature);
+    setProxyContextSize(profile.contextSize);
+    setProxyStreamingEnabled(profile.streamingEnabled);
+  }
+
+  // New profiles start as a copy of the active one.
+  function createConnectionProfile() {
+    const active = getTaskConnection();
+    const profile = normalizeConnectionProfile({ ...active, id: uid(), name: `Profile ${connectionProfiles.length + 1}` });
+    if (!profile) return;
+    setConnectionProfiles((prev) => [...prev, profile]);
+    setActiveProfileId(profile.id);
+  }
+
+  function renameConnectionProfile(id: string, name: string) {
+    setConnectionProfiles((prev) => prev.map((p) => (p.id === id ? { ...p, name } : p)));
+  }
+
+  function deleteConnectionProfile(id: string) {
+    if (connectionProfiles.length <= 1) return;
+    const profile = connectionProfiles.find((p) => p.id === id);
+    const ok = window.confirm(`Delete the "${profile?.name || "Untitled"}" profile?`);
+    if (!ok) return;
+    if (id === activeProfileId) switchConnectionProfile(connectionProfiles.find((p) => p.id !== id)!.id);
+    setConnectionProfiles((prev) => prev.filter((p) => p.id !== id));
+    setTaskProfileIds((prev) => {
+      const next = { ...prev };
+      for (const task of PROXY_TASKS) if (next[task.id] === id) delete next[task.id];
+      return next;
+    });
+  }
+
+  // The active profile is read from the live Proxy fields; a task override reads its saved profile.
+  function getTaskConnection(task?: ProxyTask): ConnectionProfile {
+    const overrideId = task ? taskProfileIds[task] : undefined;
+    const override = overrideId && overrideId !== activeProfileId ? connectionProfiles.find((p) => p.id === overrideId) : undefined;
+    if (override) return override;
+    return {
+      id: activeProfileId,
+      name: connectionProfiles.find((p) => p.id === activeProfileId)?.name || "Default",
+      provider: proxyProvider,
+      chatUrl: proxyChatUrl,
+      apiKey: proxyApiKey,
+      model: proxyModel,
+      maxTokens: proxyMaxTokens,
+      temperature: proxyTemperature,
+      contextSize: proxyContextSize,
+      streamingEnabled: proxyStreamingEnabled,
+    };
+  }
+
+  // Lists the endpoint's models with the settings currently in the Proxy modal; clicking one selects it.
+  async function testProxyConnection() {
+    setConnectionTest({ status: "testing", message: "", models: [] });
+    try {
+      const models = await fetchProviderModels(proxyProvider, { chatUrl: collapseWhitespace(proxyChatUrl), apiKey: collapseWhitespace(proxyApiKey) });
+      const model = collapseWhitespace(proxyModel);
+      const message = !models.length
+        ? "Connected, but the endpoint did not list any models."
+        : models.includes(model)
+          ? `Connected. ${models.length} models available, including "${model}".`
+          : `Connected. ${models.length} models available${model ? `, but "${model}" is not one of them` : ""}. Pick one below.`;
+      setConnectionTest({ status: "ok", message, models });
+    } catch (e: any) {
+      setConnectionTest({ status: "error", message: e?.message ? String(e.message) : "Connection failed.", models: [] });
+    }
+  }
+
+  // Newest first; older entries fall off once the limit is reached.
+  function appendRequestLog(entry: RequestLogEntry) {
+    if (requestLogLimit <= 0) return;
+    setRequestLog((prev) => [entry, ...prev].slice(0, requestLogLimit));
+  }
+
+  function patchRequestLog(id: string, patch: Partial<RequestLogEntry>) {
+    setRequestLog((prev) => prev.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+  }
+
+  // Loads saved proxy settings and connection profiles into state; used at startup and by workspace restore.
+  function applyProxySettings(savedProxy: unknown, savedProfiles: unknown) {
+    if (savedProxy && typeof savedProxy === "object") {
+      if (isProxyProvider((savedProxy as any).provider)) setProxyProvider((savedProxy as any).provider);
+      if (typeof (savedProxy as any).chatUrl === "string") setProxyChatUrl((savedProxy as any).chatUrl);
+      if (typeof (savedProxy as any).apiKey === "string") setProxyApiKey((savedProxy as any).apiKey);
+      if (typeof (savedProxy as any).model === "string") setProxyModel((savedProxy as any).model);
+      const mt = Number((savedProxy as any).maxTokens);
+      if (Number.isFinite(mt) && mt > 0) setProxyMaxTokens(Math.floor(mt));
+      const temp = Number((savedProxy as any).temperature);
+      if (Number.isFinite(temp) && temp >= 0 && temp <= 2) {
+        setProxyTemperature(temp);
+        setProxyTemperatureInput(String(temp));
+      }
+      const ctx = Number((savedProxy as any).contextSize);
+      if (Number.isFinite(ctx) && ctx > 1) setProxyContextSize(Math.floor(ctx));
+      if (typeof (savedProxy as any).customPrompt === "string") setProxyCustomPrompt((savedProxy as any).customPrompt);
+      if (typeof (savedProxy as any).streamingEnabled === "boolean") setProxyStreamingEnabled((savedProxy as any).streamingEnabled);
+      const loreBudget = Number((savedProxy as any).loreTokenBudget);
+      if (Number.isFinite(loreBudget) && loreBudget >= 0) setProxyLoreTokenBudget(Math.floor(loreBudget));
+      const loreMax = Number((savedProxy as any).loreMaxActivations);
+      if (Number.isFinite(loreMax) && loreMax >= 0) setProxyLoreMaxActivations(Math.floor(loreMax));
+      if (typeof (savedProxy as any).loreRecursiveScanning === "boolean") setProxyLoreRecursiveScanning((savedProxy as any).loreRecursiveScanning);
+      if (typeof (savedProxy as any).keepChatReasoning === "boolean") setProxyKeepChatReasoning((savedProxy as any).keepChatReasoning);
+      const logLimit = Math.floor(Number((savedProxy as any).requestLogLimit));
+      if (Number.isFinite(logLimit) && logLimit >= 0) setRequestLogLimit(logLimit);
+    }
+
+    // The flat PROXY_KEY settings always hold the active profile, so older saves become a "Default" profile.
+    const profiles = Array.isArray((savedProfiles as any)?.profiles)
+      ? (savedProfiles as any).profiles.map((p: any) => normalizeConnectionProfile(p)).filter((p: ConnectionProfile | null): p is ConnectionProfile => !!p)
+      : [];
+    if (!profiles.length) {
+      const initial = normalizeConnectionProfile({ ...(savedProxy && typeof savedProxy === "object" ? savedProxy : {}), name: "Default" });
+      if (initial) profiles.push(initial);
+    }
+    const savedActiveProfileId = String((savedProfiles as any)?.activeProfileId || "");
+    setConnectionProfiles(profiles);
+    setActiveProfileId(profiles.some((p: ConnectionProfile) => p.id === savedActiveProfileId) ? savedActiveProfileId : profiles[0]?.id || "");
+    const savedTaskProfiles = (savedProfiles as any)?.taskProfileIds;
+    if (savedTaskProfiles && typeof savedTaskProfiles === "object") {
+      const next: Partial<Record<ProxyTask, string>> = {};
+      for (const task of PROXY_TASKS) {
+        const id = savedTaskProfiles[task.id];
+        if (typeof id === "string" && profiles.some((p: ConnectionProfile) => p.id === id)) next[task.id] = id;
+      }
+      setTaskProfileIds(next);
+    }
+  }
+
+  // Everything changed between begin and end becomes one undo step, e.g. the streamed output of a generation.
+  function beginHistoryGroup() {
+    const h = historyRef.current;
+    if (h.groupDepth++ === 0) h.groupStarted = false;
+  }
+
+  function endHistoryGroup() {
+    const h = historyRef.current;
+    h.groupDepth = Math.max(0, h.groupDepth - 1);
+    // The caller usually commits the final text right after; let it join the step.
+    h.lastAt = Date.now();
+  }
 
-    if (!chatUrl) throw new Error("Please set a Chat Completion URL in Proxy.");
-    if (!apiKey) throw new Error("Please set an API key in Proxy.");
-    if (!model) throw new Error("Please set a model name in Proxy.");
+  function applyHistoryStep(direction: "undo" | "redo") {
+    const h = historyRef.current;
+    const current = h.last;
+    const target = direction === "undo" ? h.undo[h.undo.length - 1] : h.redo[h.redo.length - 1];
+    if (!current || !target) return;
+    if (direction === "undo") {
+      h.undo = h.undo.slice(0, -1);
+      h.redo = [...h.redo, current];
+    } else {
+      h.redo = h.redo.slice(0, -1);
+      h.undo = [...h.undo, current];
+    }
+    h.last = target;
+    h.lastKey = "";
+    setHistoryCounts({ undo: h.undo.length, redo: h.redo.length });
+    setCharacters(target.characters);
+    setStories(target.stories);
+    setLorebooks(target.lorebooks);
+    setCharacterCards(target.characterCards);
+
+    // The character form and the card editor autosave into their lists, so they have to show the restored values
+    // or they would write the undone ones back on the next edit. The story editor keeps its own inputs too.
+    if (selectedId) {
+      const restored = target.characters.find((c) => c.id === selectedId);
+      if (!restored) {
+        resetForm();
+      } else if (restored !== current.characters.find((c) => c.id === selectedId)) {
+        const currentTab = tab;
+        loadCharacterIntoForm(restored);
+        setTab(currentTab);
+      }
+    }
+    const restoredCard = target.characterCards.find((c) => c.id === activeCharacterCardId);
+    if (restoredCard && restoredCard !== current.characterCards.find((c) => c.id === activeCharacterCardId)) {
+      loadCharacterCardIntoEditor(restoredCard);
+    }
+    const restoredStory = target.stories.find((s) => s.id === activeStoryId) || null;
+    if (restoredStory !== (current.stories.find((s) => s.id === activeStoryId) || null)) loadStoryIntoEditor(restoredStory);
+
+    // The trash is not part of the snapshots. Records a step brings back leave the trash, and records it removes
+    // again go back to the trash if they came from there, e.g. when undoing a restore.
+    const before = getHistoryTrashIds(current);
+    const after = getHistoryTrashIds(target);
+    const returned = trash.filter((item) => after.has(item.id) && !before.has(item.id));
+    const retrashed = [...before].filter((id) => !after.has(id)).flatMap((id) => h.trashed.get(id) ?? []);
+    returned.forEach((item) => h.trashed.set(item.id, item));
+    if (returned.length || retrashed.length) {
+      setTrash((prev) => [
+        ...retrashed.filter((item) => !prev.some((x) => x.id === item.id)),
+        ...prev.filter((x) => !returned.includes(x)),
+      ]);
+    }
+    const retrashedBookIds = retrashed.filter((item) => item.kind === "lorebook").map((item) => item.id);
+    if (retrashedBookIds.length) {
+      // Personas are not part of the snapshots either, so drop their assignments to lorebooks sent back.
+      setPersonas((prev) =>
+        prev.map((p) =>
+          p.lorebookIds.some((id) => retrashedBookIds.includes(id))
+            ? { ...p, lorebookIds: p.lorebookIds.filter((id) => !retrashedBookIds.includes(id)), updatedAt: new Date().toISOString() }
+            : p
+        )
+      );
+    }
+  }
 
-    const lorebookContext = getAssignedLorebookContext(args.lorebookIds || []);
-    const customPrompt = collapseWhitespace(proxyCustomPrompt);
-    const effectiveSystem = [
-      customPrompt ? `Global behavior instructions:
-${customPrompt}` : "",
-      args.system,
-      lorebookContext ? `Always-active assigned lorebooks context:
-${lorebookContext}` : "",
-    ].filter(Boolean).join("\n\n");
+  function changeRequestLogLimit(limit: number) {
+    setRequestLogLimit(limit);
+    setRequestLog((prev) => prev.slice(0, limit));
+  }
 
-    const res = await fetch(chatUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: "system", content: effectiveSystem },
-          { role: "user", content: args.user },
-        ],
-        temperature: args.temperature ?? proxyTemperature,
-        max_tokens: args.maxTokens ?? proxyMaxTokens,
-        max_completion_tokens: args.maxTokens ?? proxyMaxTokens,
-        context_size: proxyContextSize,
-        max_context_tokens: proxyContextSize,
-        num_ctx: proxyContextSize,
-        stream: !!args.stream,
-      }),
-    });
+  // Applied on blur or Enter so a half-typed value never truncates the log; an empty or invalid one is reverted.
+  function commitRequestLogLimitDraft() {
+    const n = Math.floor(Number(requestLogLimitDraft));
+    if (requestLogLimitDraft.trim() && Number.isFinite(n) && n >= 0 && n <= 500) {
+      changeRequestLogLimit(n);
+      setRequestLogLimitDraft(String(n));
+    } else {
+      setRequestLogLimitDraft(String(requestLogLimit));
+    }
+  }
 
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      throw new Error(`Request failed (${res.status}). ${text}`);
+  function copyRequestLogEntry(entry: RequestLogEntry, format: "json" | "curl") {
+    const text = format === "curl" ? formatRequestAsCurl(entry) : JSON.stringify(getRequestLogPayload(entry), null, 2);
+    navigator.clipboard.writeText(text).then(
+      () => setRequestLogNotice(format === "curl" ? "Copied as curl." : "Copied as JSON."),
+      () => setRequestLogNotice("Could not access the clipboard.")
+    );
+  }
+
+  function exportWorkspaceArchive() {
+    const exportedAt = new Date().toISOString();
+    const archive: WorkspaceArchive = {
+      format: WORKSPACE_ARCHIVE_FORMAT,
+      version: 1,
+      exportedAt,
+      includesApiKeys: workspaceIncludeKeys,
+      schemaVersions: Object.fromEntries(IDB_STORES.map((s) => [s.name, getLatestSchemaVersion(s.name)])) as Record<IdbStoreName, number>,
+      characters,
+      characterCards,
+      stories,
+      lorebooks,
+      chatSessions,
+      personas,
+      defaultPersonaId,
+      proxy: {
+        provider: proxyProvider,
+        chatUrl: proxyChatUrl,
+        apiKey: workspaceIncludeKeys ? proxyApiKey : "",
+        model: proxyModel,
+        maxTokens: proxyMaxTokens,
+        temperature: proxyTemperature,
+        contextSize: proxyContextSize,
+        customPrompt: proxyCustomPrompt,
+        streamingEnabled: proxyStreamingEnabled,
+        loreTokenBudget: proxyLoreTokenBudget,
+        loreMaxActivations: proxyLoreMaxActivations,
+        loreRecursiveScanning: proxyLoreRecursiveScanning,
+        keepChatReasoning: proxyKeepChatReasoning,
+        requestLogLimit,
+      },
+      connectionProfiles: connectionProfiles.map((p) => (workspaceIncludeKeys ? p : { ...p, apiKey: "" })),
+      activeProfileId,
+      taskProfileIds,
+    };
+    try {
+      const bytes = buildWorkspaceArchive(archive);
+      downloadBlob(`mastercreator_workspace_${exportedAt.slice(0, 10)}.zip`, new Blob([bytes], { type: "application/zip" }));
+      setWorkspaceNotice(`Exported ${formatWorkspaceCounts(archive)}.`);
+    } catch (e: any) {
+      setWorkspaceNotice(e?.message ? `Export failed. ${e.message}` : "Export failed.");
     }
+  }
 
-    if (args.stream) {
-      const reader = res.body?.getReader();
-      if (reader) {
-        const decoder = new TextDecoder();
-        let merged = "";
-        let buffer = "";
-
-        const parseEventLine = (line: string) => {
-          const trimmed = line.trim();
-          if (!trimmed || !trimmed.startsWith("data:")) return;
-          const payload = trimmed.replace(/^data:\s*/, "");
-          if (!payload || payload === "[DONE]") return;
-          let delta = "";
-          try {
-            const part = JSON.parse(payload);
-            delta =
-              part?.choices?.[0]?.delta?.content ??
-              part?.choices?.[0]?.message?.content ??
-              part?.choices?.[0]?.text ??
-              "";
-          } catch {
-            delta = payload;
-          }
-          if (!delta) return;
-          merged += delta;
-          args.onStreamUpdate?.(merged);
-        };
+  function formatWorkspaceCounts(archive: WorkspaceArchive) {
+    return [
+      `${archive.characters.length} characters`,
+      `${archive.characterCards.length} cards`,
+      `${archive.stories.length} stories`,
+      `${archive.lorebooks.length} lorebooks`,
+      `${archive.chatSessions.length} chats`,
+      `${archive.personas.length} personas`,
+    ].join(", ");
+  }
 
-        while (true) {
-          const { value, done } = await reader.read();
-          if (done) break;
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split(/\r?\n/);
-          buffer = lines.pop() || "";
-          for (const line of lines) parseEventLine(line);
-        }
-        if (buffer) parseEventLine(buffer);
+  async function pickWorkspaceArchive(file: File) {
+    setWorkspaceConflicts(null);
+    try {
+      const archive = await parseWorkspaceArchive(new Uint8Array(await file.arrayBuffer()));
+      setPendingWorkspace({ fileName: file.name, archive });
+      setWorkspaceNotice("");
+    } catch (e: any) {
+      setPendingWorkspace(null);
+      setWorkspaceNotice(e?.message ? `Could not read the backup. ${e.message}` : "Could not read the backup.");
+    }
+  }
 
-        const clean = String(merged ?? "").trim();
-        if (!clean) throw new Error("No text returned by the model.");
-        return clean;
+  // Restored records go through state like any edit, so the persist effects write them to IndexedDB.
+  function restoreWorkspaceArchive() {
+    if (!pendingWorkspace) return;
+    const { archive } = pendingWorkspace;
+    const mode = workspaceRestoreMode;
+    const conflicts: WorkspaceConflict[] = [];
+    const restore = <T extends { id: string; updatedAt: string }>(collection: string, current: T[], incoming: T[]) => {
+      const result = mergeWorkspaceRecords(collection, current, incoming, mode);
+      conflicts.push(...result.conflicts);
+      return result.records;
+    };
+    const nextCards = restore("character cards", characterCards, archive.characterCards);
+    const nextCharacters = restore("characters", characters, archive.characters);
+    const nextStories = restore("stories", stories, archive.stories);
+    setCharacters(nextCharacters);
+    setCharacterCards(nextCards);
+    setStories(nextStories);
+    setLorebooks(restore("lorebooks", lorebooks, archive.lorebooks));
+    setChatSessions(restore("chat sessions", chatSessions, archive.chatSessions));
+    setPersonas(restore("personas", personas, archive.personas));
+
+    // Keys left out of the backup fall back to the ones already saved for the same profile.
+    const profiles = archive.connectionProfiles.map((p) =>
+      archive.includesApiKeys ? p : { ...p, apiKey: connectionProfiles.find((x) => x.id === p.id)?.apiKey || "" }
+    );
+    if (mode === "replace") {
+      const activeKey = profiles.find((p) => p.id === archive.activeProfileId)?.apiKey;
+      applyProxySettings({ ...archive.proxy, apiKey: archive.includesApiKeys ? archive.proxy.apiKey : activeKey ?? proxyApiKey }, {
+        profiles,
+        activeProfileId: archive.activeProfileId,
+        taskProfileIds: archive.taskProfileIds,
+      });
+      setDefaultPersonaId(archive.defaultPersonaId);
+      resetForm();
+      setActiveChatSessionId(null);
+      setActiveStoryId(null);
+      setActiveLorebookId(null);
+      setActiveCharacterCardId(nextCards[0]?.id ?? null);
+      setCharacterCardNameInput(nextCards[0]?.name ?? "");
+      navigateTo("characters");
+    } else {
+      setConnectionProfiles((prev) => [...prev, ...profiles.filter((p) => !prev.some((x) => x.id === p.id))]);
+      // Open editors autosave their own copies, so they reload the archive copies that won the merge.
+      const restoredCharacter = getReplacedOpenRecord(characters, nextCharacters, selectedId);
+      if (restoredCharacter) {
+        const currentTab = tab;
+        loadCharacterIntoForm(restoredCharacter);
+        setTab(currentTab);
       }
+      const restoredCard = getReplacedOpenRecord(characterCards, nextCards, activeCharacterCardId);
+      if (restoredCard) loadCharacterCardIntoEditor(restoredCard);
+      const restoredStory = getReplacedOpenRecord(stories, nextStories, activeStoryId);
+      if (restoredStory) loadStoryIntoEditor(restoredStory);
+    }
 
-      const raw = await res.text();
-      const lines = raw
-        .split(/\r?\n/)
-        .map((l) => l.trim())
-        .filter(Boolean)
-        .filter((l) => l.startsWith("data:"))
-        .map((l) => l.replace(/^data:\s*/, ""))
-        .filter((l) => l && l !== "[DONE]");
-      let merged = "";
-      for (const line of lines) {
-        try {
-          const part = JSON.parse(line);
-          merged +=
-            part?.choices?.[0]?.delta?.content ??
-            part?.choices?.[0]?.message?.content ??
-            part?.choices?.[0]?.text ??
-            "";
-        } catch {
-          merged += line;
-        }
-        args.onStreamUpdate?.(merged);
-      }
-      const clean = String(merged ?? "").trim();
-      if (!clean) throw new Error("No text returned by the model.");
-      return clean;
+    setPendingWorkspace(null);
+    setWorkspaceConflicts(conflicts);
+    setWorkspaceNotice(`${mode === "replace" ? "Replaced the workspace with" : "Merged"} ${formatWorkspaceCounts(archive)} from ${pendingWorkspace.fileName}.`);
+  }
+
+  // Every request gets its own AbortController so stopGeneration() can cancel the fetch, the stream
+  // reader and the length-continuation loop. Partial text has already been streamed to the caller.
+  async function callProxyChatCompletion(args: ProxyChatCompletionArgs) {
+    const controller = new AbortController();
+    genAbortRef.current = controller;
+    const reasoningTarget = genReasoningTargetRef.current;
+    genReasoningTargetRef.current = null;
+    const onReasoning =
+      args.onReasoning ??
+      (reasoningTarget ? (r: string) => setGeneratedPageReasoning(reasoningTarget.fieldKey, reasoningTarget.pageId, r) : undefined);
+    beginHistoryGroup();
+    try {
+      return await requestProxyChatCompletion({ ...args, onReasoning }, controller.signal);
+    } catch (e) {
+      if (controller.signal.aborted) throw new Error("Generation stopped. The partial text was kept.");
+      throw e;
+    } finally {
+      if (genAbortRef.current === controller) genAbortRef.current = null;
+      setProxyRetryStatus("");
+      endHistoryGroup();
+    }
+  }
+
+  function getRequestLoreActivations(args: ProxyChatCompletionArgs, random?: () => number) {
+    return getAssignedLoreActivations(args.lorebookIds || [], args.loreScanText ?? args.user, {
+      messageCount: args.loreMessageCount,
+      recursive: proxyLoreRecursiveScanning,
+      tokenBudget: args.loreTokenBudget ?? proxyLoreTokenBudget,
+      maxActivations: proxyLoreMaxActivations,
+      random,
+    });
+  }
+
+  // Mirrors what requestProxyChatCompletion will send for a one-off generation, for the bar next to its prompt.
+  // Lore entries left to chance count as active.
+  function getGenerationContextBudget(args: ProxyChatCompletionArgs): { parts: ContextBudgetPart[]; contextSize: number } {
+    const connection = getTaskConnection(args.task);
+    const lorebookContext = serializeLoreScanResults(getRequestLoreActivations(args, () => 0));
+    return {
+      contextSize: connection.contextSize,
+      parts: [
+        { label: "System & rules", tokens: estimateTokens([collapseWhitespace(proxyCustomPrompt), args.system].filter(Boolean).join("\n\n")), color: "hsl(210 70% 55%)" },
+        { label: "Lorebooks", tokens: lorebookContext ? estimateTokens(`Activated lorebook entries:\n${lorebookContext}`) : 0, color: "hsl(150 50% 45%)" },
+        { label: "Prompt", tokens: estimateTokens(args.user) + CHAT_MESSAGE_TOKEN_OVERHEAD * 2, color: "hsl(40 85% 55%)" },
+        { label: "Response", tokens: Math.min(args.maxTokens ?? connection.maxTokens, connection.maxTokens), color: "hsl(0 0% 60%)" },
+      ],
+    };
+  }
+
+  function renderGenerationBudget(args: ProxyChatCompletionArgs) {
+    const budget = getGenerationContextBudget(args);
+    return <ContextBudgetBar parts={budget.parts} contextSize={budget.contextSize} />;
+  }
+
+  async function requestProxyChatCompletion(args: ProxyChatCompletionArgs, signal: AbortSignal) {
+    const connection = getTaskConnection(args.task);
+    const chatUrl = collapseWhitespace(connection.chatUrl);
+    const apiKey = collapseWhitespace(connection.apiKey);
+    const model = collapseWhitespace(connection.model);
+
+    if (!chatUrl) throw new Error(`Please set a Chat Completion URL for the "${connection.name}" profile in Proxy.`);
+    if (!apiKey && PROVIDER_ADAPTERS[connection.provider].requiresApiKey) {
+      throw new Error(`Please set an API key for the "${connection.name}" profile in Proxy.`);
     }
+    if (!model) throw new Error(`Please set a model name for the "${connection.name}" profile in Proxy.`);
+
+    const loreActivations = getRequestLoreActivations(args);
+    const lorebookContext = serializeLoreScanResults(loreActivations);
+    const customPrompt = collapseWhitespace(proxyCustomPrompt);
+    const macroUser = args.macroUser ?? getPersonaName(page.startsWith("story") ? activeStoryPersona : resolvePersona());
+    const effectiveSystem = expandMacros(
+      [
+        customPrompt ? `Global behavior instructions:
+${customPrompt}` : "",
+        args.system,
+        lorebookContext ? `Activated lorebook entries:
+${lorebookContext}` : "",
+      ].filter(Boolean).join("\n\n"),
+      getMacroContext(args.macroChar, "", macroUser)
+    );
+    // Turns are seeded by their own text so rolls match what the chat view shows.
+    const expandTurn = (content: string) => expandMacros(content, getMacroContext(args.macroChar, content, macroUser));
+    const user = expandTurn(args.user);
+    // Only role and content are sent; stored reasoning never goes back to the model.
+    const history = (args.history || []).map((m) => ({ role: m.role, content: expandTurn(m.content) }));
+
+    const replyTokens = Math.min(args.maxTokens ?? connection.maxTokens, connection.maxTokens);
+    const temperature = args.temperature ?? connection.temperature;
+    const stream = !!args.stream && connection.streamingEnabled;
+    const historyBudget = connection.contextSize - replyTokens - estimateTokens(effectiveSystem) - estimateTokens(user) - CHAT_MESSAGE_TOKEN_OVERHEAD * 2;
+    const conversation = [
+      ...trimChatHistoryToBudget(history, historyBudget),
+      { role: "user" as const, content: user },
+    ];
 
-    const data = await res.json();
-    let content =
-      data?.choices?.[0]?.message?.content ?? data?.choices?.[0]?.text ?? "";
-    let finishReason = String(data?.choices?.[0]?.finish_reason || "").toLowerCase();
-    let clean = String(content ?? "").trim();
-    if (!clean) throw new Error("No text returned by the model.");
-
-    let guard = 0;
-    while (finishReason === "length" && guard < 3) {
-      guard += 1;
-      const contRes = await fetch(chatUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
+    const request: ProviderRequest = {
+      model,
+      messages: [{ role: "system", content: effectiveSystem }, ...conversation],
+      temperature,
+      maxTokens: replyTokens,
+      contextSize: connection.contextSize,
+      stream,
+    };
+    const logId = uid();
+    const startedAt = Date.now();
+    appendRequestLog({
+      id: logId,
+      createdAt: new Date(startedAt).toISOString(),
+      task: args.task || "",
+      profileName: connection.name,
+      provider: connection.provider,
+      url: chatUrl,
+      model,
+      hasApiKey: !!apiKey,
+      messages: request.messages,
+      params: { temperature, maxTokens: replyTokens, contextSize: connection.contextSize, stream },
+      loreEntries: loreActivations.map((c) => `${c.bookName} › [${c.label}] ${c.entry.name}`),
+      status: "pending",
+      response: "",
+      continuations: 0,
+      latencyMs: 0,
+    });
+    let partial = "";
+    try {
+      const result = await completeProviderRequest(connection.provider, chatUrl, apiKey, request, signal, {
+        ...args,
+        onStreamUpdate: (text) => {
+          partial = text;
+          args.onStreamUpdate?.(text);
         },
-        body: JSON.stringify({
-          model,
-          messages: [
-            { role: "system", content: effectiveSystem },
-            { role: "assistant", content: clean },
-            { role: "user", content: "Continue exactly where you left off. Do not repeat prior text." },
-          ],
-          temperature: args.temperature ?? proxyTemperature,
-          max_tokens: args.maxTokens ?? proxyMaxTokens,
-          max_completion_tokens: args.maxTokens ?? proxyMaxTokens,
-          context_size: proxyContextSize,
-          max_context_tokens: proxyContextSize,
-          num_ctx: proxyContextSize,
-          stream: false,
-        }),
+        onRetry: (error, delayMs, attempt) => {
+          const reason = error.kind === "rate_limit" ? "Rate limited" : error.kind === "server" ? "Provider error" : "Connection failed";
+          setProxyRetryStatus(`${reason}. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${PROVIDER_RETRY_LIMIT})…`);
+          patchRequestLog(logId, { error: error.message });
+        },
+      });
+      patchRequestLog(logId, {
+        status: "done",
+        response: result.text,
+        reasoning: result.reasoning || undefined,
+        finishReason: result.finishReason,
+        continuations: result.continuations,
+        latencyMs: Date.now() - startedAt,
+        error: result.warning || undefined,
       });
-      if (!contRes.ok) break;
-      const contData = await contRes.json();
-      const more = String(contData?.choices?.[0]?.message?.content ?? contData?.choices?.[0]?.text ?? "").trim();
-      if (!more) break;
-      clean = `${clean}
-${more}`.trim();
-      finishReason = String(contData?.choices?.[0]?.finish_reason || "").toLowerCase();
+      if (result.warning) setGenError(result.warning);
+      return result.text;
+    } catch (e: any) {
+      patchRequestLog(logId, {
+        status: signal.aborted ? "stopped" : "error",
+        response: partial,
+        error: e?.message ? String(e.message) : String(e),
+        latencyMs: Date.now() - startedAt,
+      });
+      throw e;
     }
+  }
 
-    return clean;
+  function buildSelectedIntroRequest(prompt: string): ProxyChatCompletionArgs {
+    return {
+      task: "character",
+      system:
+        "You write an INTRO MESSAGE for a roleplay character. Write a compelling opening message that starts the roleplay immediately. Keep it in-character, vivid, and usable as the first message. Do not add explanations or meta commentary.",
+      user: `Character info:\n${getCharacterSummaryForLLM()}\n\nUser prompt:\n${prompt}\n\nReturn ONLY the intro message text.`,
+      temperature: 0.95,
+      stream: true,
+      lorebookIds: getCharacterGenerationLorebookIds(),
+    };
   }
 
   async function generateSelectedIntro() {
@@ -3776,11 +7925,6 @@ ${more}`.trim();
       return;
     }
 
-    const system =
-      "You write an INTRO MESSAGE for a roleplay character. Write a compelling opening message that starts the roleplay immediately. Keep it in-character, vivid, and usable as the first message. Do not add explanations or meta commentary.";
-
-    const user = `Character info:\n${getCharacterSummaryForLLM()}\n\nUser prompt:\n${userPrompt}\n\nReturn ONLY the intro message text.`;
-
     const targetIndex = clampIndex(introIndex, Math.max(1, introMessages.length));
     const existing = introMessages[targetIndex] || "";
     if (collapseWhitespace(existing)) {
@@ -3807,11 +7951,7 @@ ${more}`.trim();
     setGenLoading(true);
     try {
       const text = await callProxyChatCompletion({
-        system,
-        user,
-        temperature: 0.95,
-        stream: proxyStreamingEnabled,
-        lorebookIds: Array.from(new Set([...(characterAssignedLorebookIds || []), ...getActiveCardLorebookIds()])),
+        ...buildSelectedIntroRequest(userPrompt),
         onStreamUpdate: (partial) => {
           setIntroVersionHistories((prev) => {
             const base = prev.length ? prev.map((h) => (Array.isArray(h) && h.length ? [...h] : [""])) : [[""]];
@@ -3850,25 +7990,27 @@ ${more}`.trim();
     }
   }
 
+  function buildSynopsisRequest(): ProxyChatCompletionArgs {
+    return {
+      task: "character",
+      system:
+        "You are a creative editor generating a SYNOPSIS for a roleplay character sheet. The synopsis must be hooky, cinematic, and invite roleplay. Write 3–6 sentences. Include (subtly) a core desire, a flaw, and a tension/stake. Avoid lists, avoid headings, avoid quotes. Do not mention that you are an AI. Return ONLY the synopsis.",
+      user: `Character info:\n${getCharacterSummaryForLLM()}\n\nWrite the synopsis now.`,
+      temperature: 0.9,
+      stream: true,
+      lorebookIds: getCharacterGenerationLorebookIds(),
+    };
+  }
+
   async function generateSynopsis() {
     setGenError(null);
     const fieldKey = "character:synopsis";
 
-    const system =
-      "You are a creative editor generating a SYNOPSIS for a roleplay character sheet. The synopsis must be hooky, cinematic, and invite roleplay. Write 3–6 sentences. Include (subtly) a core desire, a flaw, and a tension/stake. Avoid lists, avoid headings, avoid quotes. Do not mention that you are an AI. Return ONLY the synopsis.";
-
-    const user = `Character info:\n${getCharacterSummaryForLLM()}\n\nWrite the synopsis now.`;
-
     setGenLoading(true);
     startGeneratedTextPage(fieldKey);
     try {
       const text = await callProxyChatCompletion({
-        system,
-        user,
-        maxTokens: proxyMaxTokens,
-        temperature: 0.9,
-        stream: proxyStreamingEnabled,
-        lorebookIds: Array.from(new Set([...(characterAssignedLorebookIds || []), ...getActiveCardLorebookIds()])),
+        ...buildSynopsisRequest(),
         onStreamUpdate: (partial) => commitGeneratedText(fieldKey, partial, setSynopsis),
       });
       commitGeneratedText(fieldKey, text, setSynopsis, true);
@@ -3930,11 +8072,12 @@ Return only the revised intro message.`;
     setGenLoading(true);
     try {
       const text = await callProxyChatCompletion({
+        task: "character",
         system,
         user,
         temperature: 0.9,
-        lorebookIds: Array.from(new Set([...(characterAssignedLorebookIds || []), ...getActiveCardLorebookIds()])),
-        stream: proxyStreamingEnabled,
+        lorebookIds: getCharacterGenerationLorebookIds(),
+        stream: true,
         onStreamUpdate: (partial) => {
           setIntroVersionHistories((prev) => {
             const base = prev.length ? prev.map((h) => (Array.isArray(h) && h.length ? [...h] : [""])) : [[""]];
@@ -4007,12 +8150,12 @@ Return only the revised synopsis.`;
     startGeneratedTextPage(fieldKey);
     try {
       const text = await callProxyChatCompletion({
+        task: "character",
         system,
         user,
-        maxTokens: proxyMaxTokens,
         temperature: 0.9,
-        lorebookIds: Array.from(new Set([...(characterAssignedLorebookIds || []), ...getActiveCardLorebookIds()])),
-        stream: proxyStreamingEnabled,
+        lorebookIds: getCharacterGenerationLorebookIds(),
+        stream: true,
         onStreamUpdate: (partial) => commitGeneratedText(fieldKey, partial, setSynopsis),
       });
       commitGeneratedText(fieldKey, text, setSynopsis, true);
@@ -4059,6 +8202,12 @@ Revision instructions:
     setIntroRevisionPrompt(buildIntroRevisionTemplate(current));
   }, [introIndex, introMessages.length]);
 
+  function getStoryCast(story: StoryProject) {
+    return (story.characterIds || [])
+      .map((id) => characters.find((c) => c.id === id))
+      .filter((c): c is Character => !!c);
+  }
+
   function getStoryCharacterContext(story: StoryProject) {
     const cast = story.characterIds
       .map((id) => characters.find((c) => c.id === id))
@@ -4106,6 +8255,29 @@ Revision instructions:
     return Array.from(ids);
   }
 
+  function buildStoryScenarioRequest(story: StoryProject, prompt: string): ProxyChatCompletionArgs {
+    const charBlob = story.characterIds
+      .map((id) => characters.find((c) => c.id === id)?.name || id)
+      .join(", ");
+    const selectedRules = getStorySelectedSystemRules(story);
+    return {
+      task: "story",
+      system:
+        "You create roleplay story scenarios for multi-character casts. Preserve continuity with provided character context and selected story rules. Return only scenario prose.",
+      user: `Characters: ${charBlob}
+
+Character context:
+${getStoryCharacterContext(story)}
+
+Selected system rules:
+${selectedRules.length ? selectedRules.join("\n") : "(none selected)"}
+
+Prompt: ${prompt}`,
+      lorebookIds: getStoryGenerationLorebookIds(story),
+      stream: true,
+    };
+  }
+
   async function generateStoryScenario() {
     if (!activeStory) return;
     const prompt = collapseWhitespace(storyScenarioPrompt);
@@ -4113,31 +8285,13 @@ Revision instructions:
       setGenError("Write a scenario prompt first.");
       return;
     }
-    const charBlob = activeStory.characterIds
-      .map((id) => characters.find((c) => c.id === id)?.name || id)
-      .join(", ");
-    const storyCharacterContext = getStoryCharacterContext(activeStory);
-    const selectedRules = getStorySelectedSystemRules(activeStory);
     const fieldKey = `story-scenario:${activeStory.id}`;
     setGenError(null);
     setGenLoading(true);
     startGeneratedTextPage(fieldKey);
     try {
       const out = await callProxyChatCompletion({
-        system:
-          "You create roleplay story scenarios for multi-character casts. Preserve continuity with provided character context and selected story rules. Return only scenario prose.",
-        user: `Characters: ${charBlob}
-
-Character context:
-${storyCharacterContext}
-
-Selected system rules:
-${selectedRules.length ? selectedRules.join("\n") : "(none selected)"}
-
-Prompt: ${prompt}`,
-        maxTokens: proxyMaxTokens,
-        lorebookIds: getStoryGenerationLorebookIds(activeStory),
-        stream: proxyStreamingEnabled,
+        ...buildStoryScenarioRequest(activeStory, prompt),
         onStreamUpdate: (partial) => commitGeneratedText(fieldKey, partial, (next) => updateStory(activeStory.id, { scenario: next })),
       });
       commitGeneratedText(fieldKey, out, (next) => updateStory(activeStory.id, { scenario: next }), true);
@@ -4163,6 +8317,7 @@ Prompt: ${prompt}`,
     startGeneratedTextPage(fieldKey);
     try {
       const out = await callProxyChatCompletion({
+        task: "story",
         system: "Revise scenario text based on feedback while preserving continuity with cast context and selected system rules. Return only revised scenario.",
         user: `Character context:
 ${storyCharacterContext}
@@ -4175,9 +8330,8 @@ ${activeStory.scenario}
 
 Feedback:
 ${feedback}`,
-        maxTokens: proxyMaxTokens,
         lorebookIds: getStoryGenerationLorebookIds(activeStory),
-        stream: proxyStreamingEnabled,
+        stream: true,
         onStreamUpdate: (partial) => commitGeneratedText(fieldKey, partial, (next) => updateStory(activeStory.id, { scenario: next })),
       });
       commitGeneratedText(fieldKey, out, (next) => updateStory(activeStory.id, { scenario: next }), true);
@@ -4188,6 +8342,26 @@ ${feedback}`,
     }
   }
 
+  function buildStorySynopsisRequest(story: StoryProject, prompt: string): ProxyChatCompletionArgs {
+    const selectedRules = getStorySelectedSystemRules(story);
+    return {
+      task: "story",
+      system: `Write a ${storySynopsisStyle} story synopsis that fits roleplay setup. Return only synopsis text.`,
+      user: `Character context:
+${getStoryCharacterContext(story)}
+
+Selected system rules:
+${selectedRules.length ? selectedRules.join("\n") : "(none selected)"}
+
+Relationships:
+${getStoryRelationshipContext(story)}
+
+Prompt: ${prompt}`,
+      lorebookIds: getStoryGenerationLorebookIds(story),
+      stream: true,
+    };
+  }
+
   async function generateStorySynopsis() {
     if (!activeStory) return;
     const prompt = collapseWhitespace(storySynopsisPrompt);
@@ -4195,29 +8369,13 @@ ${feedback}`,
       setGenError("Write a synopsis prompt first.");
       return;
     }
-    const storyCharacterContext = getStoryCharacterContext(activeStory);
-    const relationshipContext = getStoryRelationshipContext(activeStory);
-    const selectedRules = getStorySelectedSystemRules(activeStory);
     const fieldKey = `story-synopsis:${activeStory.id}`;
     setGenError(null);
     setGenLoading(true);
     startGeneratedTextPage(fieldKey);
     try {
       const out = await callProxyChatCompletion({
-        system: `Write a ${storySynopsisStyle} story synopsis that fits roleplay setup. Return only synopsis text.`,
-        user: `Character context:
-${storyCharacterContext}
-
-Selected system rules:
-${selectedRules.length ? selectedRules.join("\n") : "(none selected)"}
-
-Relationships:
-${relationshipContext}
-
-Prompt: ${prompt}`,
-        maxTokens: proxyMaxTokens,
-        lorebookIds: getStoryGenerationLorebookIds(activeStory),
-        stream: proxyStreamingEnabled,
+        ...buildStorySynopsisRequest(activeStory, prompt),
         onStreamUpdate: (partial) => commitGeneratedText(fieldKey, partial, (next) => updateStory(activeStory.id, { synopsis: next, synopsisStyle: storySynopsisStyle })),
       });
       commitGeneratedText(fieldKey, out, (next) => updateStory(activeStory.id, { synopsis: next, synopsisStyle: storySynopsisStyle }), true);
@@ -4241,15 +8399,15 @@ Prompt: ${prompt}`,
     startGeneratedTextPage(fieldKey);
     try {
       const out = await callProxyChatCompletion({
+        task: "story",
         system: "Revise story synopsis based on user feedback while preserving continuity. Return only revised synopsis text.",
         user: `Current synopsis:
 ${activeStory.synopsis || "(empty)"}
 
 Feedback:
 ${feedback}`,
-        maxTokens: proxyMaxTokens,
         lorebookIds: getStoryGenerationLorebookIds(activeStory),
-        stream: proxyStreamingEnabled,
+        stream: true,
         onStreamUpdate: (partial) => commitGeneratedText(fieldKey, partial, (next) => updateStory(activeStory.id, { synopsis: next })),
       });
       commitGeneratedText(fieldKey, out, (next) => updateStory(activeStory.id, { synopsis: next }), true);
@@ -4301,6 +8459,9 @@ ${feedback}`,
             onChange={(e) => setLoreEntryPrompts((prev) => ({ ...prev, [entry.id]: e.target.value }))}
             rows={3}
           />
+          {activeLorebook
+            ? renderGenerationBudget(buildLoreEntryPromptRequest(activeLorebook, entry, collapseWhitespace(loreEntryPrompts[entry.id] || ""), contentLabel))
+            : null}
           <div className="flex justify-end">
             <Button
               variant="secondary"
@@ -4313,7 +8474,12 @@ ${feedback}`,
         </div>
 
         <div className="rounded-2xl border border-[hsl(var(--border))] bg-[hsl(var(--muted))/0.45] p-4 space-y-3">
-          <div className="text-sm font-semibold">Technical settings</div>
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-semibold">Technical settings</div>
+            <span className="text-[11px] text-[hsl(var(--muted-foreground))]">
+              Injected as <TokenCount text={`${entry.name}: ${entry.content}`} />
+            </span>
+          </div>
           <div className="grid gap-3 md:grid-cols-2">
             <div>
               <div className="mb-1 text-sm">Primary keys (comma-separated)</div>
@@ -4527,9 +8693,51 @@ ${feedback}`,
             <Button variant="secondary" onClick={() => navigateTo("lorebooks")}>
               <BookOpen className="h-4 w-4" /> Lorebook List
             </Button>
+            <Button variant="secondary" onClick={() => navigateTo("my_stories")}>
+              <MessageCircle className="h-4 w-4" /> Stories
+            </Button>
+            <Button variant="secondary" onClick={() => setPersonaOpen(true)}>
+              <UserRound className="h-4 w-4" /> Personas
+            </Button>
+            {connectionProfiles.length > 1 ? (
+              <div className="w-44">
+                <Select value={activeProfileId} onChange={(e) => switchConnectionProfile(e.target.value)} aria-label="Connection profile">
+                  {connectionProfiles.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </Select>
+              </div>
+            ) : null}
             <Button variant="secondary" onClick={() => setProxyOpen(true)}>
               <SlidersHorizontal className="h-4 w-4" /> Proxy Settings
             </Button>
+            <Button
+              variant="secondary"
+              onClick={() => {
+                setRequestLogLimitDraft(String(requestLogLimit));
+                setRequestLogOpen(true);
+              }}
+            >
+              <ScrollText className="h-4 w-4" /> Request Log
+            </Button>
+            <Button variant="secondary" onClick={() => setWorkspaceOpen(true)}>
+              <Archive className="h-4 w-4" /> Backup
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => {
+                setTrashRetentionDraft(String(trashRetentionDays));
+                setTrashOpen(true);
+              }}
+            >
+              <Trash2 className="h-4 w-4" /> Trash{trash.length ? ` (${trash.length})` : ""}
+            </Button>
+            <Button variant="secondary" onClick={() => applyHistoryStep("undo")} disabled={!historyCounts.undo} title="Undo (Ctrl+Z)" aria-label="Undo">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button variant="secondary" onClick={() => applyHistoryStep("redo")} disabled={!historyCounts.redo} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+              <Redo2 className="h-4 w-4" />
+            </Button>
             <Button variant="secondary" onClick={() => setTheme((t) => (t === "light" ? "dark" : "light"))}>
               {theme === "light" ? <Moon className="h-4 w-4" /> : <Sun className="h-4 w-4" />} {theme === "light" ? "Dark" : "Light"}
             </Button>
@@ -4568,12 +8776,23 @@ ${feedback}`,
                       onClick={() => openChatSession(s)}
                       type="button"
                     >
-                      <div className="text-sm font-medium">{s.characterName}</div>
+                      <div className="flex items-center gap-1 text-sm font-medium">
+                        {s.parentSessionId ? <GitBranch className="h-3 w-3" /> : null}
+                        {s.characterName}
+                      </div>
                       <div className="mt-1 text-xs text-[hsl(var(--muted-foreground))]">
                         {new Date(s.updatedAt).toLocaleString()}
                       </div>
                     </button>
                   ))}
+                  {activeChatBranchRoot && getChatBranchChildren(chatSessions, activeChatBranchRoot.id).length ? (
+                    <div className="space-y-1 rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--card))] p-3">
+                      <div className="mb-1 flex items-center gap-1 text-sm font-semibold">
+                        <GitBranch className="h-4 w-4" /> Branches
+                      </div>
+                      {renderChatBranchNode(activeChatBranchRoot, 0, new Set())}
+                    </div>
+                  ) : null}
                 </div>
               ) : (
                 <div className="rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--card))] p-4 text-sm text-[hsl(var(--muted-foreground))]">
@@ -4583,11 +8802,117 @@ ${feedback}`,
             </div>
 
             <div className="rounded-2xl border border-[hsl(var(--border))] bg-[hsl(var(--card))] p-4 shadow-sm lg:col-span-2">
-              {chatCharacter ? (
+              {chatCharacter || chatStory ? (
                 <div className="space-y-3">
                   <div className="flex items-center justify-between gap-2">
-                    <div className="text-lg font-semibold">Chat with {chatCharacter.name}</div>
+                    <div className="text-lg font-semibold">
+                      {chatStory ? `Story: ${collapseWhitespace(chatStory.title) || "Untitled story"}` : `Chat with ${chatCharacter?.name}`}
+                    </div>
+                    <div className="ml-auto w-48">
+                      <Select
+                        value={activeChatSession?.personaId || ""}
+                        onChange={(e) => patchActiveChatSession({ personaId: e.target.value || undefined })}
+                        aria-label="Persona"
+                      >
+                        <option value="">{chatStory?.personaId ? "Story persona" : "Default persona"} ({getPersonaName(resolvePersona(chatStory?.personaId))})</option>
+                        {personas.map((p) => (
+                          <option key={p.id} value={p.id}>{getPersonaName(p)}</option>
+                        ))}
+                      </Select>
+                    </div>
+                    <Button variant="secondary" onClick={() => setChatMemoryOpen((v) => !v)}>
+                      <BookOpen className="h-4 w-4" /> Memory
+                    </Button>
+                    {activeChatSession ? (
+                      <Button variant="danger" disabled={genLoading} onClick={() => deleteChatSession(activeChatSession.id)} title="Move this chat to the trash" aria-label="Delete chat">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    ) : null}
+                    {activeChatSiblings.length > 1 ? (
+                      <div className="flex items-center gap-2 text-xs text-[hsl(var(--muted-foreground))]">
+                        <Button
+                          variant="secondary"
+                          type="button"
+                          disabled={genLoading || activeChatSiblingIndex <= 0}
+                          onClick={() => openChatSession(activeChatSiblings[activeChatSiblingIndex - 1])}
+                        >
+                          <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                        Branch {activeChatSiblingIndex + 1} / {activeChatSiblings.length}
+                        <Button
+                          variant="secondary"
+                          type="button"
+                          disabled={genLoading || activeChatSiblingIndex >= activeChatSiblings.length - 1}
+                          onClick={() => openChatSession(activeChatSiblings[activeChatSiblingIndex + 1])}
+                        >
+                          <ChevronRight className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : null}
                   </div>
+                  {chatMemoryOpen ? (
+                    <div className="space-y-2 rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-sm font-semibold">Summary memory</div>
+                        <div className="text-xs text-[hsl(var(--muted-foreground))]">
+                          {chatSummarizing
+                            ? "Summarizing earlier messages…"
+                            : `Covers the first ${Math.min(activeChatSession?.summarizedCount || 0, chatMessages.length)} of ${chatMessages.length} messages`}
+                        </div>
+                      </div>
+                      <Textarea
+                        value={activeChatSession?.summary || ""}
+                        onChange={(e) => patchActiveChatSession({ summary: e.target.value })}
+                        rows={4}
+                        placeholder="Older messages are summarized here once the chat outgrows the context size."
+                      />
+                      <div className="flex gap-2">
+                        <Button variant="secondary" onClick={regenerateChatSummary} disabled={genLoading}>
+                          <RefreshCw className="h-4 w-4" /> Regenerate summary
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          onClick={() => patchActiveChatSession({ summary: "", summarizedCount: 0 })}
+                          disabled={genLoading || (!activeChatSession?.summary && !activeChatSession?.summarizedCount)}
+                        >
+                          Clear
+                        </Button>
+                      </div>
+                    </div>
+                  ) : null}
+                  {chatStory ? (
+                    <div className="space-y-2 rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3">
+                      <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="text-[hsl(var(--muted-foreground))]">Next speaker by</span>
+                        <Select value={chatTurnMode} onChange={(e) => setChatTurnMode(e.target.value as StoryTurnMode)} disabled={genLoading}>
+                          {STORY_TURN_MODES.map((m) => (
+                            <option key={m.id} value={m.id}>{m.label}</option>
+                          ))}
+                        </Select>
+                        <Button variant="secondary" onClick={() => continueStoryChat()} disabled={genLoading || !chatStoryCast.length}>
+                          Next turn
+                        </Button>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {chatStoryCast.map((c) => (
+                          <button
+                            key={c.id}
+                            type="button"
+                            onClick={() => setChatStorySpeakerId(c.id)}
+                            disabled={genLoading || chatTurnMode !== "manual"}
+                            className={cn(
+                              "clickable inline-flex items-center gap-1 rounded-full border border-[hsl(var(--border))] px-2 py-1 text-xs disabled:cursor-default",
+                              chatNextStorySpeakerId === c.id && "border-[hsl(var(--hover-accent))] bg-[hsl(var(--muted))] font-semibold"
+                            )}
+                          >
+                            {c.imageDataUrl ? <img src={c.imageDataUrl} alt={c.name} className="h-4 w-4 rounded-full object-cover" /> : null}
+                            {c.name}
+                          </button>
+                        ))}
+                        {!chatStoryCast.length ? <div className="text-xs text-[hsl(var(--muted-foreground))]">This story has no cast yet.</div> : null}
+                      </div>
+                    </div>
+                  ) : null}
                   <div className="max-h-[62vh] space-y-2 overflow-auto rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3">
                     {chatMessages.length ? (
                       chatMessages.map((m, i) => (
@@ -4601,18 +8926,96 @@ ${feedback}`,
                           )}
                         >
                           {m.role === "assistant" ? (
-                            chatCharacter.imageDataUrl ? (
+                            getChatMessageAvatar(m) ? (
                               <img
-                                src={chatCharacter.imageDataUrl}
-                                alt={chatCharacter.name}
+                                src={getChatMessageAvatar(m)}
+                                alt={m.speakerName || chatCharacter?.name || chatStory?.title || ""}
                                 className="mt-0.5 h-7 w-7 rounded-full object-cover"
                               />
                             ) : (
                               <div className="mt-0.5 flex h-7 w-7 items-center justify-center rounded-full border border-[hsl(var(--border))] text-[10px]">AI</div>
                             )
                           ) : null}
-                          <div className="min-w-0">
-                            <RichText text={m.content} />
+                          <div className={cn("min-w-0", editingChatMessageIndex === i && "flex-1")}>
+                            {chatStory && m.role === "assistant" && m.speakerName ? (
+                              <div className="mb-0.5 text-xs font-semibold">{m.speakerName}</div>
+                            ) : null}
+                            {m.role === "assistant" && m.reasoning ? (
+                              <div className="mb-1">
+                                <ThinkingPanel reasoning={m.reasoning} live={genLoading && i === chatMessages.length - 1} />
+                              </div>
+                            ) : null}
+                            {editingChatMessageIndex === i ? (
+                              <div className="space-y-2">
+                                <Textarea
+                                  value={editingChatMessageText}
+                                  onChange={(e) => setEditingChatMessageText(e.target.value)}
+                                  rows={4}
+                                />
+                                <div className="flex gap-2">
+                                  <Button variant="primary" onClick={saveChatMessageEdit} disabled={!collapseWhitespace(editingChatMessageText)}>
+                                    <Check className="h-4 w-4" /> Save
+                                  </Button>
+                                  <Button variant="secondary" onClick={() => setEditingChatMessageIndex(null)}>
+                                    Cancel
+                                  </Button>
+                                </div>
+                              </div>
+                            ) : (
+                              <RichText
+                                text={expandMacros(m.content, getMacroContext(m.speakerName || chatCharacter?.name || "", m.content, getPersonaName(chatPersona)))}
+                              />
+                            )}
+                            {editingChatMessageIndex !== i ? (
+                              <div className="mt-1 flex items-center gap-1 text-[hsl(var(--muted-foreground))]">
+                                <button type="button" className="clickable rounded-lg p-1 disabled:opacity-50" onClick={() => startEditingChatMessage(i)} disabled={genLoading} aria-label="Edit message" title="Edit">
+                                  <Pencil className="h-3 w-3" />
+                                </button>
+                                <button type="button" className="clickable rounded-lg p-1 disabled:opacity-50" onClick={() => deleteChatMessage(i)} disabled={genLoading} aria-label="Delete message" title="Delete">
+                                  <Trash2 className="h-3 w-3" />
+                                </button>
+                                {i < chatMessages.length - 1 ? (
+                                  <button type="button" className="clickable rounded-lg p-1 disabled:opacity-50" onClick={() => rewindChatToMessage(i)} disabled={genLoading} aria-label="Rewind to here" title="Rewind to here">
+                                    <Rewind className="h-3 w-3" />
+                                  </button>
+                                ) : null}
+                                <button type="button" className="clickable rounded-lg p-1 disabled:opacity-50" onClick={() => branchChatFromMessage(i)} disabled={genLoading} aria-label="Branch from here" title="Branch from here">
+                                  <GitBranch className="h-3 w-3" />
+                                </button>
+                                <TokenCount text={m.content} className="ml-1" />
+                              </div>
+                            ) : null}
+                            {m.role === "assistant" && i === chatMessages.length - 1 && (chatStory ? !!m.speakerId : chatMessages[i - 1]?.role === "user") ? (
+                              <div className="mt-2 flex items-center gap-2 text-xs text-[hsl(var(--muted-foreground))]">
+                                <button
+                                  type="button"
+                                  className="clickable rounded-lg border border-[hsl(var(--border))] p-1 disabled:opacity-50"
+                                  onClick={() => swipeLastChatReply(-1)}
+                                  disabled={genLoading || getChatMessageSwipes(m).activeIndex === 0}
+                                  aria-label="Previous reply"
+                                >
+                                  <ChevronLeft className="h-3 w-3" />
+                                </button>
+                                <span>{getChatMessageSwipes(m).activeIndex + 1} / {getChatMessageSwipes(m).pages.length}</span>
+                                <button
+                                  type="button"
+                                  className="clickable rounded-lg border border-[hsl(var(--border))] p-1 disabled:opacity-50"
+                                  onClick={() => swipeLastChatReply(1)}
+                                  disabled={genLoading}
+                                  aria-label="Next reply"
+                                >
+                                  <ChevronRight className="h-3 w-3" />
+                                </button>
+                                <button
+                                  type="button"
+                                  className="clickable inline-flex items-center gap-1 rounded-lg border border-[hsl(var(--border))] px-2 py-1 disabled:opacity-50"
+                                  onClick={regenerateLastChatReply}
+                                  disabled={genLoading}
+                                >
+                                  <RefreshCw className="h-3 w-3" /> Regenerate
+                                </button>
+                              </div>
+                            ) : null}
                           </div>
                         </div>
                       ))
@@ -4620,16 +9023,26 @@ ${feedback}`,
                       <div className="text-sm text-[hsl(var(--muted-foreground))]">No messages yet. Start chatting.</div>
                     )}
                   </div>
+                  {(() => {
+                    const budget = getChatContextBudget();
+                    return budget ? <ContextBudgetBar parts={budget.parts} contextSize={budget.contextSize} /> : null;
+                  })()}
                   <div className="flex gap-2">
                     <Input
                       value={chatInput}
                       onChange={(e) => setChatInput(e.target.value)}
                       onKeyDown={(e) => onEnterAdd(e, sendChatMessage)}
-                      placeholder="Type your message…"
+                      placeholder={chatStory ? "Write your part of the scene…" : "Type your message…"}
                     />
-                    <Button variant="primary" onClick={sendChatMessage} disabled={!collapseWhitespace(chatInput) || genLoading}>
-                      Send
-                    </Button>
+                    {genLoading ? (
+                      <Button variant="danger" onClick={stopGeneration}>
+                        <Square className="h-4 w-4" /> Stop
+                      </Button>
+                    ) : (
+                      <Button variant="primary" onClick={sendChatMessage} disabled={!collapseWhitespace(chatInput)}>
+                        Send
+                      </Button>
+                    )}
                   </div>
                   {genError ? <div className="text-sm text-[hsl(0_75%_55%)]">{genError}</div> : null}
                 </div>
@@ -4798,7 +9211,7 @@ ${feedback}`,
                     <div className="mt-3 flex flex-wrap gap-2">
                       <Button variant="secondary" onClick={() => { setActiveStoryId(s.id); navigateTo("story_editor"); }}>Open</Button>
                       <Button variant="secondary" onClick={() => exportStoryTxt(s)}><Download className="h-4 w-4" /> TXT</Button>
-                      <Button variant="danger" onClick={() => { if (window.confirm(`Delete ${s.title}?`)) deleteStory(s.id); }}><Trash2 className="h-4 w-4" /> Delete</Button>
+                      <Button variant="danger" onClick={() => { if (window.confirm(`Move ${s.title} to the trash?`)) deleteStory(s.id); }}><Trash2 className="h-4 w-4" /> Delete</Button>
                     </div>
                   </div>
                 </div>
@@ -4817,6 +9230,20 @@ ${feedback}`,
                 <Button variant="primary" onClick={createLorebook}>
                   <Plus className="h-4 w-4" /> Create
                 </Button>
+                <Button variant="secondary" onClick={() => lorebookImportRef.current?.click()}>
+                  <Upload className="h-4 w-4" /> Import JSON
+                </Button>
+                <input
+                  ref={lorebookImportRef}
+                  type="file"
+                  accept="application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    if (f) importLorebookJSON(f);
+                    e.currentTarget.value = "";
+                  }}
+                />
                 <Button variant="secondary" onClick={() => navigateTo("library")}>
                   <ArrowLeft className="h-4 w-4" /> Dashboard
                 </Button>
@@ -4838,7 +9265,7 @@ ${feedback}`,
                     <Button variant="secondary" className="w-full" onClick={() => exportLorebookAsEntries(book)}>
                       <Download className="h-4 w-4" /> Export
                     </Button>
-                    <Button variant="secondary" className="w-full" onClick={() => setLorebooks((prev) => prev.filter((x) => x.id !== book.id))}>
+                    <Button variant="secondary" className="w-full" onClick={() => deleteLorebook(book.id)}>
                       <Trash2 className="h-4 w-4" /> Delete
                     </Button>
                   </div>
@@ -4955,6 +9382,7 @@ ${feedback}`,
                         <Button variant="secondary" onClick={generateLorebookWorld} disabled={genLoading}><Sparkles className="h-4 w-4" /> Generate</Button>
                       </div>
                     </div>
+                    {renderGenerationBudget(buildLorebookWorldRequest(activeLorebook, collapseWhitespace(lorebookWorldPrompt)))}
                   </div>
                 ) : null}
 
@@ -5042,7 +9470,7 @@ ${feedback}`,
                           )}
                           <div className="flex gap-2">
                             <Button variant="primary" onClick={saveFactionEditor}>Done</Button>
-                            {editingFactionId ? <Button variant="secondary" onClick={() => { if (!activeLorebook || !editingFactionId) return; updateLorebook(activeLorebook.id, { factions: activeLorebook.factions.filter((f) => f.id !== editingFactionId) }); setFactionEditorOpen(false); }}><Trash2 className="h-4 w-4" /> Delete</Button> : null}
+                            {editingFactionId ? <Button variant="secondary" onClick={() => { if (!activeLorebook || !editingFactionId) return; deleteFaction(activeLorebook.id, editingFactionId); setFactionEditorOpen(false); }}><Trash2 className="h-4 w-4" /> Delete</Button> : null}
                           </div>
                         </div>
                       </div>
@@ -5116,6 +9544,21 @@ ${feedback}`,
               </div>
               <div className="flex gap-2">
                 <Button variant="secondary" onClick={() => navigateTo("my_stories")}>Stories</Button>
+                <div className="w-48">
+                  <Select
+                    value={activeStory?.personaId || ""}
+                    onChange={(e) => activeStory && updateStory(activeStory.id, { personaId: e.target.value || undefined })}
+                    aria-label="Story persona"
+                  >
+                    <option value="">Default persona ({getPersonaName(resolvePersona())})</option>
+                    {personas.map((p) => (
+                      <option key={p.id} value={p.id}>{getPersonaName(p)}</option>
+                    ))}
+                  </Select>
+                </div>
+                <Button variant="secondary" onClick={() => activeStory && startStoryChat(activeStory)} disabled={!activeStory?.characterIds.length}>
+                  <MessageCircle className="h-4 w-4" /> Play
+                </Button>
                 <Button variant="secondary" onClick={() => activeStory && downloadJSON((filenameSafe(activeStory.title) || "story") + ".json", activeStory)}>
                   <Download className="h-4 w-4" /> JSON
                 </Button>
@@ -5201,6 +9644,7 @@ ${feedback}`,
                 <div className="rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3 space-y-2">
                   <div className="text-sm font-medium">Generate scenario</div>
                   <Textarea value={storyScenarioPrompt} onChange={(e) => setStoryScenarioPrompt(e.target.value)} rows={3} placeholder="Prompt..." />
+                  {renderGenerationBudget(buildStoryScenarioRequest(activeStory, collapseWhitespace(storyScenarioPrompt)))}
                   <Button variant="secondary" onClick={generateStoryScenario} disabled={genLoading}><Sparkles className="h-4 w-4" /> Generate</Button>
                 </div>
                 <div className="rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3 space-y-2">
@@ -5356,6 +9800,7 @@ ${feedback}`,
                     <Input value={storyFirstMessagePrompt} onChange={(e) => setStoryFirstMessagePrompt(e.target.value)} placeholder="Guide first message" />
                   </div>
                 </div>
+                {renderGenerationBudget(buildStoryFirstMessageRequest(activeStory, collapseWhitespace(storyFirstMessagePrompt)))}
                 <Button variant="secondary" onClick={generateStoryFirstMessage} disabled={genLoading}><Sparkles className="h-4 w-4" /> Generate first message</Button>
 
                 <Textarea
@@ -5440,6 +9885,9 @@ ${feedback}`,
                 <div>
                   <div className="mb-1 text-xs font-medium text-[hsl(var(--muted-foreground))]">Additional custom system rules</div>
                   <Textarea value={storySystemRulesInput} onChange={(e) => { setStorySystemRulesInput(e.target.value); if (activeStory) updateStory(activeStory.id, { systemRules: e.target.value }); }} rows={8} />
+                  <div className="flex justify-end">
+                    <TokenCount text={[...getStorySelectedSystemRules(activeStory), storySystemRulesInput].join("\n")} />
+                  </div>
                 </div>
               </div>
             ) : storyTab === "relationships" ? (
@@ -5564,6 +10012,7 @@ ${feedback}`,
                     <option value="melancholic">Melancholic</option>
                   </Select>
                   <Textarea value={storySynopsisPrompt} onChange={(e) => setStorySynopsisPrompt(e.target.value)} rows={3} placeholder="Prompt for synopsis generation..." />
+                  {renderGenerationBudget(buildStorySynopsisRequest(activeStory, collapseWhitespace(storySynopsisPrompt)))}
                   <Button variant="secondary" onClick={generateStorySynopsis} disabled={genLoading || !collapseWhitespace(storySynopsisPrompt)}><Sparkles className="h-4 w-4" /> Generate</Button>
                 </div>
                 <div className="rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3 space-y-2">
@@ -5649,8 +10098,8 @@ ${feedback}`,
                     <div className="mb-2 text-xs font-semibold text-[hsl(var(--muted-foreground))]">Formed relationships</div>
                     <div className="space-y-2">
                       {activeStory.relationships.map((r) => {
-                        const fromName = r.fromCharacterId === USER_NODE_ID ? "USER" : (characters.find((c) => c.id === r.fromCharacterId)?.name || "?");
-                        const toName = r.toCharacterId === USER_NODE_ID ? "USER" : (characters.find((c) => c.id === r.toCharacterId)?.name || "?");
+                        const fromName = r.fromCharacterId === USER_NODE_ID ? storyUserLabel : (characters.find((c) => c.id === r.fromCharacterId)?.name || "?");
+                        const toName = r.toCharacterId === USER_NODE_ID ? storyUserLabel : (characters.find((c) => c.id === r.toCharacterId)?.name || "?");
                         return (
                           <div
                             key={r.id}
@@ -5686,7 +10135,7 @@ ${feedback}`,
                   </div>
                   <div className="absolute inset-0" style={{ transform: `translate(${boardPan.x}px, ${boardPan.y}px)` }}>
                   {[...activeStory.boardNodes, ...(activeStory.boardNodes.some((bn) => bn.characterId === USER_NODE_ID) ? [] : [{ characterId: USER_NODE_ID, x: 40, y: 120 }])].map((n) => {
-                    const c = n.characterId === USER_NODE_ID ? ({ id: USER_NODE_ID, name: "USER", imageDataUrl: "" } as any) : characters.find((x) => x.id === n.characterId);
+                    const c = n.characterId === USER_NODE_ID ? ({ id: USER_NODE_ID, name: storyUserLabel, imageDataUrl: activeStoryPersona?.imageDataUrl || "" } as any) : characters.find((x) => x.id === n.characterId);
                     if (!c) return null;
                     return (
                       <div
@@ -5819,7 +10268,7 @@ ${feedback}`,
                     {[USER_NODE_ID, ...activeStory.characterIds]
                       .filter((id) => !activeStory.boardNodes.some((n) => n.characterId === id))
                       .map((id) => {
-                        const c = id === USER_NODE_ID ? ({ id: USER_NODE_ID, name: "USER", imageDataUrl: "" } as any) : characters.find((x) => x.id === id);
+                        const c = id === USER_NODE_ID ? ({ id: USER_NODE_ID, name: storyUserLabel, imageDataUrl: activeStoryPersona?.imageDataUrl || "" } as any) : characters.find((x) => x.id === id);
                         if (!c) return null;
                         return (
                           <div
@@ -5854,7 +10303,7 @@ ${feedback}`,
                         <Select value={storyRelFromId} onChange={(e) => setStoryRelFromId(e.target.value)}>
                           <option value="">Select character…</option>
                           {[USER_NODE_ID, ...activeStory.characterIds].map((id) => {
-                            if (id === USER_NODE_ID) return <option key={id} value={id}>USER</option>;
+                            if (id === USER_NODE_ID) return <option key={id} value={id}>{storyUserLabel}</option>;
                             const c = characters.find((x) => x.id === id);
                             return c ? <option key={id} value={id}>{c.name}</option> : null;
                           })}
@@ -5865,7 +10314,7 @@ ${feedback}`,
                         <Select value={storyRelToId} onChange={(e) => setStoryRelToId(e.target.value)}>
                           <option value="">Select character…</option>
                           {[USER_NODE_ID, ...activeStory.characterIds].map((id) => {
-                            if (id === USER_NODE_ID) return <option key={id} value={id}>USER</option>;
+                            if (id === USER_NODE_ID) return <option key={id} value={id}>{storyUserLabel}</option>;
                             const c = characters.find((x) => x.id === id);
                             return c ? <option key={id} value={id}>{c.name}</option> : null;
                           })}
@@ -5994,16 +10443,32 @@ ${feedback}`,
           <div className="anim-page mt-6 space-y-4">
             <div className="flex items-center justify-between">
               <div className="text-xl font-semibold">Character Dashboard</div>
-              <Button variant="primary" onClick={() => {
-                const now = new Date().toISOString();
-                const newCard: CharacterCard = { id: uid(), name: "New Character Card", characterIds: [], systemRules: "", selectedSystemRuleIds: [], firstMessageMessages: [""], selectedFirstMessageIndex: 0, createdAt: now, updatedAt: now };
-                setCharacterCards((prev) => [newCard, ...prev]);
-                setActiveCharacterCardId(newCard.id);
-                setCharacterCardNameInput(newCard.name);
-                setSelectedId(null);
-                resetForm();
-                navigateTo("create");
-              }}><Plus className="h-4 w-4" /> New</Button>
+              <div className="flex gap-2">
+                <Button variant="secondary" onClick={() => characterCardImportRef.current?.click()}>
+                  <Upload className="h-4 w-4" /> Import Card
+                </Button>
+                <input
+                  ref={characterCardImportRef}
+                  type="file"
+                  accept="application/json,image/png"
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    if (f) importCharacterCardFile(f);
+                    e.currentTarget.value = "";
+                  }}
+                />
+                <Button variant="primary" onClick={() => {
+                  const now = new Date().toISOString();
+                  const newCard: CharacterCard = { id: uid(), name: "New Character Card", characterIds: [], systemRules: "", selectedSystemRuleIds: [], firstMessageMessages: [""], selectedFirstMessageIndex: 0, createdAt: now, updatedAt: now };
+                  setCharacterCards((prev) => [newCard, ...prev]);
+                  setActiveCharacterCardId(newCard.id);
+                  setCharacterCardNameInput(newCard.name);
+                  setSelectedId(null);
+                  resetForm();
+                  navigateTo("create");
+                }}><Plus className="h-4 w-4" /> New</Button>
+              </div>
             </div>
             <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
               {characterCards.map((card) => {
@@ -6114,7 +10579,7 @@ ${feedback}`,
                   ) : null}
 
                   {tab === "system" ? (
-                    <div className="space-y-3"><div className="grid gap-2">{STORY_SYSTEM_RULE_CARDS.map((rule) => { const selected = cardSelectedSystemRuleIds.includes(rule.id); return <button key={rule.id} type="button" className={cn("rounded-xl border p-3 text-left", selected ? "border-[hsl(var(--hover-accent))] bg-[hsl(var(--hover-accent))/0.12]" : "border-[hsl(var(--border))]")} onClick={() => setCardSelectedSystemRuleIds((prev) => prev.includes(rule.id) ? prev.filter((id) => id !== rule.id) : [...prev, rule.id])}><div className="text-sm font-medium">{rule.label}</div><div className="text-xs text-[hsl(var(--muted-foreground))]">{rule.text}</div></button>; })}</div><div><div className="mb-1 text-xs font-medium text-[hsl(var(--muted-foreground))]">Additional custom system rules</div><Textarea value={cardSystemRules} onChange={(e) => setCardSystemRules(e.target.value)} rows={8} /></div></div>
+                    <div className="space-y-3"><div className="grid gap-2">{STORY_SYSTEM_RULE_CARDS.map((rule) => { const selected = cardSelectedSystemRuleIds.includes(rule.id); return <button key={rule.id} type="button" className={cn("rounded-xl border p-3 text-left", selected ? "border-[hsl(var(--hover-accent))] bg-[hsl(var(--hover-accent))/0.12]" : "border-[hsl(var(--border))]")} onClick={() => setCardSelectedSystemRuleIds((prev) => prev.includes(rule.id) ? prev.filter((id) => id !== rule.id) : [...prev, rule.id])}><div className="text-sm font-medium">{rule.label}</div><div className="text-xs text-[hsl(var(--muted-foreground))]">{rule.text}</div></button>; })}</div><div><div className="mb-1 text-xs font-medium text-[hsl(var(--muted-foreground))]">Additional custom system rules</div><Textarea value={cardSystemRules} onChange={(e) => setCardSystemRules(e.target.value)} rows={8} /><div className="flex justify-end"><TokenCount text={[...STORY_SYSTEM_RULE_CARDS.filter((rule) => cardSelectedSystemRuleIds.includes(rule.id)).map((rule) => rule.text), cardSystemRules].join("\n")} /></div></div></div>
                   ) : null}
 
                   {tab === "intro" ? (
@@ -6163,17 +10628,26 @@ ${feedback}`,
                 >
                   <Download className="h-4 w-4" /> Export JSON
                 </Button>
+                <Button
+                  variant="secondary"
+                  onClick={() => {
+                    if (!draft) return alert("Please enter a character name before exporting.");
+                    exportCharacterCardPng(draft);
+                  }}
+                >
+                  <Download className="h-4 w-4" /> Export PNG
+                </Button>
                 <Button variant="secondary" onClick={() => characterCardImportRef.current?.click()}>
-                  <Upload className="h-4 w-4" /> Import JSON
+                  <Upload className="h-4 w-4" /> Import Card
                 </Button>
                 <input
                   ref={characterCardImportRef}
                   type="file"
-                  accept="application/json"
+                  accept="application/json,image/png"
                   className="hidden"
                   onChange={(e) => {
                     const f = e.target.files?.[0];
-                    if (f) importCharacterCardJSON(f);
+                    if (f) importCharacterCardFile(f);
                     e.currentTarget.value = "";
                   }}
                 />
@@ -6238,7 +10712,7 @@ ${feedback}`,
                           <div><div className="mb-1 text-sm font-medium">Gender</div><Select value={gender} onChange={(e) => setGender(e.target.value as Gender)}><option value="">—</option><option value="Male">Male</option><option value="Female">Female</option></Select></div>
                           <div><div className="mb-1 text-sm font-medium">Age</div><Input value={age} onChange={(e) => { const v = e.target.value; if (v === "") return setAge(""); const n = Number(v); if (Number.isFinite(n)) setAge(n); }} inputMode="numeric" /></div>
                           <div><div className="mb-1 text-sm font-medium">Height</div><Input value={height} onChange={(e) => setHeight(e.target.value)} /></div>
-                          <div className="md:col-span-2"><div className="mb-1 text-sm font-medium">Character description</div><Textarea value={synopsis} onChange={(e) => setSynopsis(e.target.value)} rows={8} /></div>
+                          <div className="md:col-span-2"><div className="mb-1 text-sm font-medium">Character description</div><Textarea value={synopsis} onChange={(e) => setSynopsis(e.target.value)} rows={8} /><div className="flex justify-end"><TokenCount text={synopsis} /></div></div>
                         </div>
                       </div>
                     </div>
@@ -6305,6 +10779,7 @@ ${feedback}`,
                       <div className="rounded-2xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-4 space-y-2">
                         <div className="text-sm font-medium">Prompt to revise/add/change backstory</div>
                         <Textarea value={backstoryPrompt} onChange={(e) => setBackstoryPrompt(e.target.value)} rows={3} placeholder="e.g. Make this darker and add childhood trauma details" />
+                        {renderGenerationBudget(buildBackstoryRevisionRequest(collapseWhitespace(backstoryPrompt)))}
                         <Button variant="secondary" type="button" onClick={reviseBackstoryTextWithPrompt} disabled={genLoading}><Sparkles className="h-4 w-4" /> Apply prompt</Button>
                         {genError ? <div className="text-sm text-[hsl(0_75%_55%)]">{genError}</div> : null}
                       </div>
@@ -6323,6 +10798,9 @@ ${feedback}`,
                         rows={10}
                         placeholder="System rules…"
                       />
+                      <div className="flex justify-end">
+                        <TokenCount text={systemRules} />
+                      </div>
                     </div>
                   ) : null}
 
@@ -6447,6 +10925,9 @@ ${feedback}`,
                         rows={9}
                         placeholder="Write the opening message…"
                       />
+                      <div className="flex justify-end">
+                        <TokenCount text={introMessages[clampIndex(introIndex, Math.max(1, introMessages.length))] || ""} />
+                      </div>
 
                       <div className="space-y-3 rounded-2xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-4">
                         <div className="text-sm font-medium">Generate with Proxy</div>
@@ -6456,6 +10937,7 @@ ${feedback}`,
                           rows={4}
                           placeholder="Prompt for the model…"
                         />
+                        {renderGenerationBudget(buildSelectedIntroRequest(collapseWhitespace(introPrompt)))}
                         <div className="flex items-center gap-2">
                           <Button
                             variant="primary"
@@ -6511,6 +10993,7 @@ ${feedback}`,
                           <Sparkles className="h-4 w-4" /> {genLoading ? "Generating…" : "Generate"}
                         </Button>
                       </div>
+                      {renderGenerationBudget(buildSynopsisRequest())}
                       {renderGeneratedTextarea({
                         fieldKey: "character:synopsis",
                         value: synopsis,
@@ -6636,6 +11119,16 @@ ${feedback}`,
                       >
                         <Download className="h-4 w-4" /> Export JSON
                       </Button>
+                      <Button
+                        variant="secondary"
+                        type="button"
+                        onClick={() => {
+                          if (!draft) return alert("Enter a character name first.");
+                          exportCharacterCardPng(draft);
+                        }}
+                      >
+                        <Download className="h-4 w-4" /> Export PNG
+                      </Button>
                       <Button variant="primary" type="button" onClick={saveCharacter}>
                         <Plus className="h-4 w-4" /> Save
                       </Button>
@@ -6714,6 +11207,16 @@ ${feedback}`,
               >
                 <Download className="h-4 w-4" /> Export JSON
               </Button>
+              <Button
+                variant="secondary"
+                type="button"
+                onClick={() => {
+                  if (!draft) return alert("Enter a character name first.");
+                  exportCharacterCardPng(draft);
+                }}
+              >
+                <Download className="h-4 w-4" /> Export PNG
+              </Button>
               <Button variant="primary" type="button" onClick={saveCharacter}>
                 <Plus className="h-4 w-4" /> Save
               </Button>
@@ -6733,10 +11236,13 @@ ${feedback}`,
             }}
           >
             <div
-              className="mb-2 text-xs font-medium"
+              className="mb-2 flex items-center justify-between gap-2 text-xs font-medium"
               style={{ color: theme === "light" ? "hsl(40 33% 96%)" : "hsl(222 10% 14%)" }}
             >
-              Proxy is writing…
+              <span>{proxyRetryStatus || "Proxy is writing…"}</span>
+              <button type="button" className="clickable inline-flex items-center gap-1 rounded-lg border border-current px-2 py-0.5" onClick={stopGeneration}>
+                <Square className="h-3 w-3" /> Stop
+              </button>
             </div>
             <div
               className="h-2 overflow-hidden rounded-full"
@@ -6823,6 +11329,64 @@ ${feedback}`,
             <div className="text-sm text-[hsl(var(--muted-foreground))]">
               You can type any OpenAI-compatible Chat Completions URL (Chutes, OpenRouter, etc.).
             </div>
+            <div className="space-y-2 rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3">
+              <div className="text-sm font-medium">Connection profile</div>
+              <div className="flex gap-2">
+                <Select value={activeProfileId} onChange={(e) => switchConnectionProfile(e.target.value)}>
+                  {connectionProfiles.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </Select>
+                <Button variant="secondary" onClick={createConnectionProfile}>
+                  <Plus className="h-4 w-4" /> New
+                </Button>
+                <Button variant="danger" onClick={() => deleteConnectionProfile(activeProfileId)} disabled={connectionProfiles.length <= 1}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Input
+                value={connectionProfiles.find((p) => p.id === activeProfileId)?.name || ""}
+                onChange={(e) => renameConnectionProfile(activeProfileId, e.target.value)}
+                placeholder="Profile name"
+              />
+              <div className="text-xs text-[hsl(var(--muted-foreground))]">
+                URL, key, model, max tokens, temperature, context size and streaming are saved per profile.
+              </div>
+            </div>
+            <div className="space-y-2 rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3">
+              <div className="text-sm font-medium">Per-task profiles</div>
+              {PROXY_TASKS.map((task) => (
+                <div key={task.id} className="grid grid-cols-2 items-center gap-2">
+                  <div className="text-sm">{task.label}</div>
+                  <Select
+                    value={taskProfileIds[task.id] || ""}
+                    onChange={(e) => setTaskProfileIds((prev) => ({ ...prev, [task.id]: e.target.value || undefined }))}
+                  >
+                    <option value="">Active profile</option>
+                    {connectionProfiles.map((p) => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <div className="text-sm font-medium">API format</div>
+              <Select
+                value={proxyProvider}
+                onChange={(e) => {
+                  const next = e.target.value as ProxyProvider;
+                  // Swap in the new format's endpoint unless the URL was customized.
+                  const url = collapseWhitespace(proxyChatUrl);
+                  if (!url || Object.values(PROVIDER_ADAPTERS).some((a) => a.defaultUrl === url)) setProxyChatUrl(PROVIDER_ADAPTERS[next].defaultUrl);
+                  setProxyProvider(next);
+                }}
+              >
+                {(Object.keys(PROVIDER_ADAPTERS) as ProxyProvider[]).map((id) => (
+                  <option key={id} value={id}>{PROVIDER_ADAPTERS[id].label}</option>
+                ))}
+              </Select>
+            </div>
             <div className="space-y-2">
               <div className="text-sm font-medium">Chat completion URL</div>
               <Input
@@ -6832,7 +11396,7 @@ ${feedback}`,
               />
             </div>
             <div className="space-y-2">
-              <div className="text-sm font-medium">Proxy API key</div>
+              <div className="text-sm font-medium">Proxy API key{PROVIDER_ADAPTERS[proxyProvider].requiresApiKey ? "" : " (optional)"}</div>
               <Input
                 value={proxyApiKey}
                 onChange={(e) => setProxyApiKey(e.target.value)}
@@ -6848,6 +11412,36 @@ ${feedback}`,
                 placeholder="e.g., gpt-4.1-mini"
               />
             </div>
+            <div className="space-y-2 rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium">Connection</div>
+                <Button variant="secondary" onClick={testProxyConnection} disabled={connectionTest.status === "testing" || !collapseWhitespace(proxyChatUrl)}>
+                  <RefreshCw className="h-4 w-4" /> {connectionTest.status === "testing" ? "Testing…" : "Test connection"}
+                </Button>
+              </div>
+              {connectionTest.message ? (
+                <div className={cn("text-xs", connectionTest.status === "error" ? "text-[hsl(0_75%_55%)]" : "text-[hsl(var(--muted-foreground))]")}>
+                  {connectionTest.message}
+                </div>
+              ) : null}
+              {connectionTest.models.length ? (
+                <div className="flex max-h-40 flex-wrap gap-1 overflow-auto">
+                  {connectionTest.models.map((m) => (
+                    <button
+                      key={m}
+                      type="button"
+                      onClick={() => setProxyModel(m)}
+                      className={cn(
+                        "clickable rounded-lg border border-[hsl(var(--border))] px-2 py-0.5 text-xs",
+                        m === collapseWhitespace(proxyModel) && "bg-[hsl(var(--muted))] font-semibold"
+                      )}
+                    >
+                      {m}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+            </div>
             <div className="space-y-2">
               <div className="text-sm font-medium">Max tokens</div>
               <Input
@@ -6899,6 +11493,19 @@ ${feedback}`,
                 When enabled, all LLM-generated fields stream text in real time.
               </div>
             </div>
+            <div className="rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3">
+              <label className="flex items-center justify-between gap-3 text-sm font-medium">
+                <span>Keep model thinking in chat history</span>
+                <input
+                  type="checkbox"
+                  checked={proxyKeepChatReasoning}
+                  onChange={(e) => setProxyKeepChatReasoning(e.target.checked)}
+                />
+              </label>
+              <div className="mt-1 text-xs text-[hsl(var(--muted-foreground))]">
+                Reasoning models (e.g. DeepSeek R1) think before answering. Their thinking is always kept out of the reply and is never sent back to the model; this only decides whether it is saved with chat messages.
+              </div>
+            </div>
             <div className="space-y-2">
               <div className="text-sm font-medium">Context size (tokens)</div>
               <input
@@ -6917,6 +11524,46 @@ ${feedback}`,
               </div>
               <div className="text-xs text-[hsl(var(--muted-foreground))]">Current: {Math.round(proxyContextSize / 1000)}k tokens.</div>
             </div>
+            <div className="space-y-3 rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-3">
+              <div className="text-sm font-medium">Lorebook activation</div>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <div className="mb-1 text-sm">Token budget per request</div>
+                  <Input
+                    value={String(proxyLoreTokenBudget)}
+                    onChange={(e) => {
+                      const n = Math.floor(Number(e.target.value));
+                      if (Number.isFinite(n) && n >= 0) setProxyLoreTokenBudget(n);
+                    }}
+                    placeholder="e.g., 2048"
+                    inputMode="numeric"
+                  />
+                </div>
+                <div>
+                  <div className="mb-1 text-sm">Max activated entries</div>
+                  <Input
+                    value={String(proxyLoreMaxActivations)}
+                    onChange={(e) => {
+                      const n = Math.floor(Number(e.target.value));
+                      if (Number.isFinite(n) && n >= 0) setProxyLoreMaxActivations(n);
+                    }}
+                    placeholder="e.g., 100"
+                    inputMode="numeric"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center justify-between gap-3 text-sm font-medium">
+                <span>Recursive scanning</span>
+                <input
+                  type="checkbox"
+                  checked={proxyLoreRecursiveScanning}
+                  onChange={(e) => setProxyLoreRecursiveScanning(e.target.checked)}
+                />
+              </label>
+              <div className="text-xs text-[hsl(var(--muted-foreground))]">
+                Activated entries can trigger further entries. When the budget or cap is reached, lower priority/order entries are dropped first. Use 0 for no limit.
+              </div>
+            </div>
             <div className="flex justify-end">
               <Button variant="primary" onClick={() => setProxyOpen(false)}>
                 Done
@@ -6925,17 +11572,368 @@ ${feedback}`,
           </div>
         </Modal>
 
-        <Modal open={personaOpen} onClose={() => setPersonaOpen(false)} title="Your Persona" widthClass="max-w-2xl">
+        <Modal open={trashOpen} onClose={() => setTrashOpen(false)} title="Trash" widthClass="max-w-3xl">
+          <div className="space-y-3 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span>Delete items after</span>
+                <div className="w-20">
+                  <Input
+                    value={trashRetentionDraft}
+                    onChange={(e) => setTrashRetentionDraft(e.target.value)}
+                    onBlur={commitTrashRetentionDraft}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitTrashRetentionDraft();
+                    }}
+                    inputMode="numeric"
+                    aria-label="Trash retention in days"
+                  />
+                </div>
+                <span>days</span>
+              </div>
+              <Button
+                variant="danger"
+                disabled={!trash.length}
+                onClick={() => {
+                  if (window.confirm(`Permanently delete ${trash.length} item(s)?`)) setTrash([]);
+                }}
+              >
+                <Trash2 className="h-4 w-4" /> Empty trash
+              </Button>
+            </div>
+            <div className="text-xs text-[hsl(var(--muted-foreground))]">
+              Restoring puts an item back together with its places in cards, stories and personas. Use 0 days to keep items until you empty the trash.
+            </div>
+            {trashNotice ? <div className="text-xs text-[hsl(var(--muted-foreground))]">{trashNotice}</div> : null}
+            {trash.length ? (
+              <div className="max-h-[60vh] space-y-2 overflow-auto">
+                {trash.map((item) => (
+                  <div key={item.id} className="flex items-center justify-between gap-2 rounded-xl border border-[hsl(var(--border))] px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Badge>{TRASH_KINDS.find((k) => k.kind === item.kind)?.label}</Badge>
+                        <span className="truncate font-medium">{getRecordLabel(item.record)}</span>
+                      </div>
+                      <div className="mt-1 text-xs text-[hsl(var(--muted-foreground))]">
+                        Deleted {new Date(item.deletedAt).toLocaleString()}
+                        {item.kind === "faction" ? ` from ${lorebooks.find((b) => b.id === item.lorebookId)?.name || "a deleted lorebook"}` : ""}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      <Button variant="secondary" onClick={() => restoreTrashItem(item)}>
+                        <Rewind className="h-4 w-4" /> Restore
+                      </Button>
+                      <Button variant="danger" onClick={() => setTrash((prev) => prev.filter((x) => x.id !== item.id))} aria-label="Delete forever" title="Delete forever">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-[hsl(var(--muted-foreground))]">The trash is empty.</div>
+            )}
+          </div>
+        </Modal>
+
+        <Modal open={workspaceOpen} onClose={() => setWorkspaceOpen(false)} title="Workspace backup" widthClass="max-w-3xl">
+          <div className="space-y-4 text-sm">
+            <div className="space-y-2 rounded-2xl border border-[hsl(var(--border))] p-3">
+              <div className="font-semibold">Export</div>
+              <div className="text-xs text-[hsl(var(--muted-foreground))]">
+                One .zip with characters, cards, stories, lorebooks, chats, personas and proxy settings. Images are stored as separate files.
+              </div>
+              <label className="flex items-center gap-2 text-xs">
+                <input type="checkbox" checked={workspaceIncludeKeys} onChange={(e) => setWorkspaceIncludeKeys(e.target.checked)} />
+                Include API keys (anyone with the file can use them)
+              </label>
+              <Button variant="primary" onClick={exportWorkspaceArchive}>
+                <Download className="h-4 w-4" /> Export workspace
+              </Button>
+            </div>
+            <div className="space-y-2 rounded-2xl border border-[hsl(var(--border))] p-3">
+              <div className="font-semibold">Restore</div>
+              <Button variant="secondary" onClick={() => workspaceImportRef.current?.click()}>
+                <Upload className="h-4 w-4" /> Choose backup
+              </Button>
+              <input
+                ref={workspaceImportRef}
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) pickWorkspaceArchive(f);
+                  e.currentTarget.value = "";
+                }}
+              />
+              {pendingWorkspace ? (
+                <div className="space-y-2">
+                  <div className="text-xs">
+                    {pendingWorkspace.fileName}
+                    {pendingWorkspace.archive.exportedAt ? ` · exported ${new Date(pendingWorkspace.archive.exportedAt).toLocaleString()}` : ""} ·{" "}
+                    {formatWorkspaceCounts(pendingWorkspace.archive)}
+                    {pendingWorkspace.archive.includesApiKeys ? " · includes API keys" : ""}
+                  </div>
+                  <label className="flex items-start gap-2 text-xs">
+                    <input type="radio" name="workspace-restore-mode" checked={workspaceRestoreMode === "merge"} onChange={() => setWorkspaceRestoreMode("merge")} />
+                    <span>Merge: add new items and keep the newer copy of items that exist on both sides. Current proxy settings stay.</span>
+                  </label>
+                  <label className="flex items-start gap-2 text-xs">
+                    <input type="radio" name="workspace-restore-mode" checked={workspaceRestoreMode === "replace"} onChange={() => setWorkspaceRestoreMode("replace")} />
+                    <span>Replace: remove everything here and load the backup, including proxy settings.</span>
+                  </label>
+                  <Button variant="primary" onClick={restoreWorkspaceArchive}>
+                    <RefreshCw className="h-4 w-4" /> Restore
+                  </Button>
+                </div>
+              ) : null}
+            </div>
+            {workspaceNotice ? <div className="text-xs text-[hsl(var(--muted-foreground))]">{workspaceNotice}</div> : null}
+            {workspaceConflicts ? (
+              <div className="space-y-1">
+                <div className="text-xs font-semibold">Conflicts ({workspaceConflicts.length})</div>
+                {workspaceConflicts.length ? (
+                  <div className="max-h-[40vh] space-y-1 overflow-auto">
+                    {workspaceConflicts.map((c) => (
+                      <div key={`${c.collection}:${c.id}`} className="flex items-center justify-between gap-2 rounded-xl border border-[hsl(var(--border))] px-3 py-1.5 text-xs">
+                        <span className="min-w-0 truncate">
+                          {c.collection} · {c.name} <span className="text-[hsl(var(--muted-foreground))]">({c.id})</span>
+                        </span>
+                        <Badge>{c.kept === "archive" ? "used backup" : "kept current"}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-xs text-[hsl(var(--muted-foreground))]">No item differed between the backup and this workspace.</div>
+                )}
+              </div>
+            ) : null}
+          </div>
+        </Modal>
+
+        <Modal open={requestLogOpen} onClose={() => setRequestLogOpen(false)} title="Request log" widthClass="max-w-5xl">
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span>Keep last</span>
+                <div className="w-20">
+                  <Input
+                    value={requestLogLimitDraft}
+                    onChange={(e) => setRequestLogLimitDraft(e.target.value)}
+                    onBlur={commitRequestLogLimitDraft}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRequestLogLimitDraft();
+                    }}
+                    inputMode="numeric"
+                    aria-label="Request log size"
+                  />
+                </div>
+                <span>requests</span>
+              </div>
+              <Button variant="secondary" onClick={() => setRequestLog([])} disabled={!requestLog.length}>
+                <Trash2 className="h-4 w-4" /> Clear
+              </Button>
+            </div>
+            <div className="text-xs text-[hsl(var(--muted-foreground))]">
+              The log lives in memory and is cleared on reload. Use 0 to turn it off. API keys are never recorded; copies use {API_KEY_PLACEHOLDER}.
+            </div>
+            {requestLog.length ? (
+              <div className="grid gap-3 md:grid-cols-3">
+                <div className="max-h-[60vh] space-y-1 overflow-auto md:col-span-1">
+                  {requestLog.map((entry) => (
+                    <button
+                      key={entry.id}
+                      type="button"
+                      onClick={() => {
+                        setSelectedRequestLogId(entry.id);
+                        setRequestLogNotice("");
+                      }}
+                      className={cn(
+                        "clickable w-full rounded-xl border border-[hsl(var(--border))] px-3 py-2 text-left text-xs",
+                        selectedRequestLogId === entry.id && "bg-[hsl(var(--muted))]"
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold">{new Date(entry.createdAt).toLocaleTimeString()}</span>
+                        <Badge>{entry.status === "done" ? entry.finishReason || "done" : entry.status}</Badge>
+                      </div>
+                      <div className="mt-1 truncate text-[hsl(var(--muted-foreground))]">
+                        {PROXY_TASKS.find((t) => t.id === entry.task)?.label || "General"} · {entry.model}
+                        {entry.status !== "pending" ? ` · ${(entry.latencyMs / 1000).toFixed(1)}s` : ""}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+                <div className="max-h-[60vh] overflow-auto md:col-span-2">
+                  {(() => {
+                    const entry = requestLog.find((e) => e.id === selectedRequestLogId);
+                    if (!entry) return <div className="text-sm text-[hsl(var(--muted-foreground))]">Pick a request to inspect it.</div>;
+                    return (
+                      <div className="space-y-3 text-sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Button variant="secondary" onClick={() => copyRequestLogEntry(entry, "json")}>
+                            <Copy className="h-4 w-4" /> Copy JSON
+                          </Button>
+                          <Button variant="secondary" onClick={() => copyRequestLogEntry(entry, "curl")}>
+                            <Copy className="h-4 w-4" /> Copy curl
+                          </Button>
+                          {requestLogNotice ? <span className="text-xs text-[hsl(var(--muted-foreground))]">{requestLogNotice}</span> : null}
+                        </div>
+                        <div className="grid gap-1 text-xs sm:grid-cols-2">
+                          <div>Profile: {entry.profileName} ({PROVIDER_ADAPTERS[entry.provider].label})</div>
+                          <div className="truncate">URL: {entry.url}</div>
+                          <div>Model: {entry.model}</div>
+                          <div>
+                            Temperature {entry.params.temperature} · max {entry.params.maxTokens} · context {entry.params.contextSize} · {entry.params.stream ? "streamed" : "not streamed"}
+                          </div>
+                          <div>Finish reason: {entry.finishReason || "—"}</div>
+                          <div>
+                            Latency: {entry.status === "pending" ? "running…" : `${entry.latencyMs} ms`}
+                            {entry.continuations ? ` · ${entry.continuations} continuation(s)` : ""}
+                          </div>
+                        </div>
+                        {entry.error ? (
+                          <div className="rounded-xl border border-[hsl(var(--border))] p-2 text-xs text-[hsl(0_75%_55%)]">{entry.error}</div>
+                        ) : null}
+                        <div>
+                          <div className="mb-1 text-xs font-semibold">Lorebook entries ({entry.loreEntries.length})</div>
+                          {entry.loreEntries.length ? (
+                            <ul className="list-disc pl-5 text-xs">
+                              {entry.loreEntries.map((l, i) => <li key={i}>{l}</li>)}
+                            </ul>
+                          ) : (
+                            <div className="text-xs text-[hsl(var(--muted-foreground))]">None activated.</div>
+                          )}
+                        </div>
+                        <div className="space-y-2">
+                          <div className="text-xs font-semibold">Messages ({entry.messages.length})</div>
+                          {entry.messages.map((m, i) => (
+                            <div key={i} className="rounded-xl border border-[hsl(var(--border))] p-2">
+                              <div className="mb-1 text-[11px] font-semibold uppercase text-[hsl(var(--muted-foreground))]">{m.role}</div>
+                              <div className="whitespace-pre-wrap text-xs">{m.content}</div>
+                            </div>
+                          ))}
+                        </div>
+                        <div>
+                          <div className="mb-1 text-xs font-semibold">Response</div>
+                          <div className="whitespace-pre-wrap rounded-xl border border-[hsl(var(--border))] p-2 text-xs">{entry.response || "(empty)"}</div>
+                        </div>
+                        <ThinkingPanel reasoning={entry.reasoning} />
+                      </div>
+                    );
+                  })()}
+                </div>
+              </div>
+            ) : (
+              <div className="text-sm text-[hsl(var(--muted-foreground))]">No requests yet.</div>
+            )}
+          </div>
+        </Modal>
+
+        <Modal open={personaOpen} onClose={() => setPersonaOpen(false)} title="Personas" widthClass="max-w-3xl">
           <div className="space-y-3">
             <div className="text-sm text-[hsl(var(--muted-foreground))]">
-              Describe who you are / what you look like so characters can use this context in chat.
+              Describe who you play so characters can use this context in chat. The persona's name replaces {"{{user}}"}.
+            </div>
+            <div className="grid gap-3 md:grid-cols-3">
+              <div className="space-y-2 md:col-span-1">
+                {personas.map((p) => (
+                  <button
+                    key={p.id}
+                    type="button"
+                    onClick={() => setEditingPersonaId(p.id)}
+                    className={cn(
+                      "clickable flex w-full items-center gap-2 rounded-xl border border-[hsl(var(--border))] bg-[hsl(var(--card))] p-2 text-left text-sm",
+                      editingPersona?.id === p.id && "border-[hsl(var(--hover-accent))]"
+                    )}
+                  >
+                    {p.imageDataUrl ? (
+                      <img src={p.imageDataUrl} alt={getPersonaName(p)} className="h-8 w-8 rounded-full object-cover" />
+                    ) : (
+                      <div className="flex h-8 w-8 items-center justify-center rounded-full border border-[hsl(var(--border))] text-[10px]">
+                        {getPersonaName(p).slice(0, 2)}
+                      </div>
+                    )}
+                    <span className="min-w-0 flex-1 truncate">{getPersonaName(p)}</span>
+                    {defaultPersonaId === p.id ? <Badge>Default</Badge> : null}
+                  </button>
+                ))}
+                <Button variant="secondary" className="w-full" onClick={createPersona}>
+                  <Plus className="h-4 w-4" /> New persona
+                </Button>
+              </div>
+              <div className="md:col-span-2">
+                {editingPersona ? (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-3">
+                      {editingPersona.imageDataUrl ? (
+                        <img src={editingPersona.imageDataUrl} alt={getPersonaName(editingPersona)} className="h-16 w-16 rounded-full object-cover" />
+                      ) : (
+                        <div className="flex h-16 w-16 items-center justify-center rounded-full border border-[hsl(var(--border))] text-xs text-[hsl(var(--muted-foreground))]">No image</div>
+                      )}
+                      <div className="flex gap-2">
+                        <Button variant="secondary" onClick={() => personaImageFileRef.current?.click()}>
+                          <Upload className="h-4 w-4" /> Avatar
+                        </Button>
+                        <Button variant="secondary" onClick={() => updatePersona(editingPersona.id, { imageDataUrl: "" })} disabled={!editingPersona.imageDataUrl}>
+                          Clear
+                        </Button>
+                      </div>
+                      <input ref={personaImageFileRef} type="file" accept="image/*" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) handlePickPersonaImage(f); e.currentTarget.value = ""; }} />
+                    </div>
+                    <Input
+                      value={editingPersona.name}
+                      onChange={(e) => updatePersona(editingPersona.id, { name: e.target.value })}
+                      placeholder="Name"
+                    />
+                    <Textarea
+                      value={editingPersona.description}
+                      onChange={(e) => updatePersona(editingPersona.id, { description: e.target.value })}
+                      rows={6}
+                      placeholder="Example: I am a 24-year-old detective with short black hair, calm voice, and a cautious personality..."
+                    />
+                    <div className="flex justify-end">
+                      <TokenCount text={describePersona(editingPersona)} />
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-xs font-semibold text-[hsl(var(--muted-foreground))]">Default lorebooks</div>
+                      {lorebooks.map((b) => (
+                        <label key={b.id} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={editingPersona.lorebookIds.includes(b.id)}
+                            onChange={(e) =>
+                              updatePersona(editingPersona.id, {
+                                lorebookIds: e.target.checked
+                                  ? [...editingPersona.lorebookIds, b.id]
+                                  : editingPersona.lorebookIds.filter((id) => id !== b.id),
+                              })
+                            }
+                          />
+                          <span>{b.name}</span>
+                        </label>
+                      ))}
+                      {!lorebooks.length ? <div className="text-xs text-[hsl(var(--muted-foreground))]">No lorebooks yet.</div> : null}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="secondary"
+                        onClick={() => setDefaultPersonaId(editingPersona.id)}
+                        disabled={defaultPersonaId === editingPersona.id}
+                      >
+                        <Check className="h-4 w-4" /> Set as default
+                      </Button>
+                      <Button variant="danger" onClick={() => deletePersona(editingPersona.id)}>
+                        <Trash2 className="h-4 w-4" /> Delete
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-sm text-[hsl(var(--muted-foreground))]">Create a persona to get started.</div>
+                )}
+              </div>
             </div>
-            <Textarea
-              value={personaText}
-              onChange={(e) => setPersonaText(e.target.value)}
-              rows={8}
-              placeholder="Example: I am a 24-year-old detective with short black hair, calm voice, and a cautious personality..."
-            />
             <div className="flex justify-end">
               <Button variant="primary" onClick={() => setPersonaOpen(false)}>
                 Done
@@ -6999,6 +11997,12 @@ ${feedback}`,
                   >
                     <Download className="h-4 w-4" /> TXT
                   </Button>
+                  <Button
+                    variant="secondary"
+                    onClick={() => exportCharacterCardPng(previewChar)}
+                  >
+                    <Download className="h-4 w-4" /> PNG
+                  </Button>
                   <Button
                     variant="secondary"
                     onClick={() => startChatWithCharacter(previewChar)}
@@ -7017,7 +12021,7 @@ ${feedback}`,
                   <Button
                     variant="danger"
                     onClick={() => {
-                      const ok = window.confirm(`Delete ${previewChar.name}?`);
+                      const ok = window.confirm(`Move ${previewChar.name} to the trash?`);
                       if (ok) deleteCharacter(previewChar.id);
                     }}
                   >